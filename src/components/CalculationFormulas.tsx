@@ -0,0 +1,112 @@
+import { Card } from "@/components/ui/card";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import {
+  BATTERY_COLD_LOSS,
+  BATTERY_COLD_THRESHOLD,
+  BATTERY_HOT_LOSS,
+  BATTERY_HOT_THRESHOLD,
+  COOLING_COP,
+  HEAT_PUMP_COP,
+  HEAT_PUMP_COP_DROP,
+  HEAT_PUMP_COP_REFERENCE,
+  HVAC_BASE_LOAD,
+  MAX_REGEN_SHARE,
+  ModelCoefficients,
+  OPTIMAL_SPEED,
+  OPTIMAL_TEMPERATURE,
+  RangeModel,
+} from "@/lib/range-engine";
+import { Quantity, roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+interface CalculationFormulasProps {
+  model: RangeModel;
+  /** Coefficients the estimate uses, so a calibrated vehicle shows its own. */
+  coefficients: ModelCoefficients;
+}
+
+export function CalculationFormulas({ model, coefficients }: CalculationFormulasProps) {
+  const { system } = useUnitSystem();
+
+  // Coefficients are quoted per displayed unit, so a per-°F slope becomes a per-°C one.
+  const perUnit = (coefficient: number, quantity: Quantity, power = 1) =>
+    Number((coefficient / Math.pow(toDisplay(quantity, 1, system), power)).toPrecision(3));
+  const temperature = (value: number) => roundForDisplay(toDisplay('temperature', value, system), 1);
+  const distance = system === 'metric' ? 'km' : 'mile';
+  const degree = unitLabel('temperature', system);
+  const rangeScale = coefficients.rangeScale === 1 ? '' : ` × ${Number(coefficients.rangeScale.toPrecision(3))}`;
+  const otherShare = Math.round((1 - MAX_REGEN_SHARE) * 100);
+
+  return (
+    <Card className="p-4 mb-6 bg-muted/30">
+      <h3 className="text-lg font-semibold mb-3 text-foreground">Calculation Formulas</h3>
+      {model === 'Simple' ? (
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="font-medium text-foreground">Temperature Factor:</p>
+            <p className="text-muted-foreground font-mono">
+              factor = 1 - (|temp - {temperature(OPTIMAL_TEMPERATURE)}| × {perUnit(coefficients.temperature, 'temperatureChange')})
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Speed Factor:</p>
+            <p className="text-muted-foreground font-mono">
+              factor = 1 - ((speed - {roundForDisplay(toDisplay('speed', OPTIMAL_SPEED, system), 1)})² × {perUnit(coefficients.speed, 'speed', 2)})
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Climate Factor:</p>
+            <p className="text-muted-foreground font-mono">
+              HVAC kW = {HVAC_BASE_LOAD} + |cabin - temp| × {perUnit(coefficients.cabinHeatTransfer, 'temperatureChange')} / COP
+            </p>
+            <p className="text-muted-foreground font-mono">factor = other Wh/{distance} / (other Wh/{distance} + HVAC kW ÷ speed)</p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Terrain Factor:</p>
+            <p className="text-muted-foreground font-mono">net Wh/{distance} = m·g·(gain / η - loss × regen%) ÷ distance</p>
+            <p className="text-muted-foreground font-mono">
+              factor = other Wh/{distance} / max(other Wh/{distance} + net, {otherShare}% × other Wh/{distance})
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Final Range:</p>
+            <p className="text-muted-foreground font-mono">EPA Range{rangeScale} × All Factors × (Current Charge / 100)</p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="font-medium text-foreground">Driving (Wh/{distance}):</p>
+            <p className="text-muted-foreground font-mono">(½ρ·Cd·A·v² + Crr·m·g) × 1 {distance} / η + aux kW / speed</p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Climate (Wh/{distance}):</p>
+            <p className="text-muted-foreground font-mono">
+              ({HVAC_BASE_LOAD} + |cabin - temp| × {perUnit(coefficients.cabinHeatTransfer, 'temperatureChange')} / COP) kW ÷ speed
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Terrain (Wh/{distance}):</p>
+            <p className="text-muted-foreground font-mono">
+              max(m·g·(gain / η - loss × regen%) ÷ distance, -{Math.round(MAX_REGEN_SHARE * 100)}% × (Driving + Climate))
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Battery Temperature Factor:</p>
+            <p className="text-muted-foreground font-mono">
+              1 - (max(0, {temperature(BATTERY_COLD_THRESHOLD)} - temp) × {perUnit(BATTERY_COLD_LOSS, 'temperatureChange')})
+              {' '}- (max(0, temp - {temperature(BATTERY_HOT_THRESHOLD)}) × {perUnit(BATTERY_HOT_LOSS, 'temperatureChange')})
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Final Range:</p>
+            <p className="text-muted-foreground font-mono">Usable kWh{rangeScale} × Battery Factor / (Driving + Climate + Terrain)</p>
+          </div>
+        </div>
+      )}
+      <p className="mt-3 text-xs text-muted-foreground">
+        COP is 1 for resistive heating, {COOLING_COP} for cooling, and {HEAT_PUMP_COP} for a heat pump above
+        {' '}{temperature(HEAT_PUMP_COP_REFERENCE)}{degree}, falling by {perUnit(HEAT_PUMP_COP_DROP, 'temperatureChange')} per {degree} colder.
+      </p>
+    </Card>
+  );
+}
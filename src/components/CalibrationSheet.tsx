@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { Trash2 } from 'lucide-react';
+import { LogDriveForm } from "@/components/LogDriveForm";
+import { useDriveLog } from "@/hooks/use-drive-log";
+import { useGarage } from "@/hooks/use-garage";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { CALIBRATED_COEFFICIENTS, calibrateCoefficients, minimumDrives } from "@/lib/calibration";
+import { predictedChargeUsed } from "@/lib/drive-log";
+import { GarageVehicle } from "@/lib/garage";
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeInputs, RangeModel } from "@/lib/range-engine";
+import { roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+const COEFFICIENT_LABELS: Record<keyof ModelCoefficients, string> = {
+  rangeScale: 'Overall range',
+  temperature: 'Temperature sensitivity',
+  speed: 'Speed sensitivity',
+  cabinHeatTransfer: 'Cabin heat loss',
+};
+
+const percentOfDefault = (coefficients: ModelCoefficients, key: keyof ModelCoefficients) =>
+  Math.round((coefficients[key] / DEFAULT_COEFFICIENTS[key]) * 100);
+
+interface CalibrationSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: GarageVehicle;
+  /** Estimator inputs, used to pre-fill the conditions of a new drive. */
+  inputs: RangeInputs;
+}
+
+export function CalibrationSheet({ open, onOpenChange, vehicle, inputs }: CalibrationSheetProps) {
+  const { system } = useUnitSystem();
+  const { updateVehicle } = useGarage();
+  const { drives: allDrives, removeDrive } = useDriveLog();
+  const [model, setModel] = useState<RangeModel>(inputs.model);
+
+  const drives = useMemo(() => allDrives.filter((drive) => drive.vehicleId === vehicle.id), [allDrives, vehicle.id]);
+  const needed = minimumDrives(model);
+  const fit = useMemo(
+    () => (drives.length >= needed ? calibrateCoefficients(drives, model, vehicle.coefficients) : undefined),
+    [drives, needed, model, vehicle.coefficients]
+  );
+
+  const apply = () => {
+    updateVehicle(vehicle.id, {
+      coefficients: fit.coefficients,
+      calibration: {
+        model,
+        fittedAt: new Date().toISOString(),
+        driveCount: drives.length,
+        errorBefore: fit.before.mae,
+        errorAfter: fit.after.mae,
+      },
+    });
+    toast.success(`Calibrated ${vehicle.name}`, { description: 'The estimator uses the fitted coefficients from now on.' });
+  };
+
+  const reset = () => {
+    updateVehicle(vehicle.id, { coefficients: DEFAULT_COEFFICIENTS, calibration: undefined });
+    toast.success(`Reset ${vehicle.name} to the default coefficients`);
+  };
+
+  const distanceUnit = unitLabel('distance', system);
+  const points = (value: number) => `${value.toFixed(1)} pts`;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Calibrate {vehicle.name}</SheetTitle>
+          <SheetDescription>
+            Log drives you have completed, then fit this car's model coefficients to them so future estimates match how it actually drives.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 my-6">
+          <h3 className="text-lg font-semibold text-foreground">Log a drive</h3>
+          <LogDriveForm vehicle={vehicle} model={inputs.model} conditions={inputs} />
+        </div>
+
+        <div className="space-y-4 mb-6">
+          <h3 className="text-lg font-semibold text-foreground">Drives ({drives.length})</h3>
+          {drives.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No drives logged for this car yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Distance ({distanceUnit})</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Estimated</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drives.map((drive) => (
+                  <TableRow key={drive.id}>
+                    <TableCell>{drive.date}</TableCell>
+                    <TableCell>{roundForDisplay(toDisplay('distance', drive.inputs.routeDistance, system), 1)}</TableCell>
+                    <TableCell>{roundForDisplay(drive.chargeUsed, 1)}%</TableCell>
+                    <TableCell>{roundForDisplay(predictedChargeUsed({ ...drive.inputs, model }, vehicle.coefficients), 1)}%</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" aria-label={`Delete drive on ${drive.date}`} onClick={() => removeDrive(drive.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">Fit coefficients</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {(['Simple', 'Physics'] as RangeModel[]).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={model === option ? "default" : "outline"}
+                onClick={() => setModel(option)}
+                className="text-sm font-medium"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          {vehicle.calibration && (
+            <p className="text-sm text-muted-foreground">
+              Last fitted to {vehicle.calibration.driveCount} drives with the {vehicle.calibration.model.toLowerCase()} model on
+              {' '}{new Date(vehicle.calibration.fittedAt).toLocaleDateString()}, cutting the typical error from
+              {' '}{points(vehicle.calibration.errorBefore)} to {points(vehicle.calibration.errorAfter)}.
+            </p>
+          )}
+          {!fit && (
+            <p className="text-sm text-muted-foreground">
+              The {model.toLowerCase()} model fits {CALIBRATED_COEFFICIENTS[model].length} coefficients, so log at least {needed} drives
+              {' '}({needed - drives.length} more) before calibrating.
+            </p>
+          )}
+          {fit && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-muted/50 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-foreground">{points(fit.before.mae)}</div>
+                  <div className="text-sm text-muted-foreground">Typical error now (bias {fit.before.bias >= 0 ? '+' : ''}{fit.before.bias.toFixed(1)})</div>
+                </div>
+                <div className="bg-muted/50 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-foreground">{points(fit.after.mae)}</div>
+                  <div className="text-sm text-muted-foreground">After calibrating (bias {fit.after.bias >= 0 ? '+' : ''}{fit.after.bias.toFixed(1)})</div>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Errors are the mean gap between estimated and actual charge used, in percentage points of battery; a positive bias means the
+                {' '}estimate expected more charge to be used than was.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coefficient</TableHead>
+                    <TableHead>Now</TableHead>
+                    <TableHead>Fitted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {CALIBRATED_COEFFICIENTS[model].map((key) => (
+                    <TableRow key={key}>
+                      <TableCell>{COEFFICIENT_LABELS[key]}</TableCell>
+                      <TableCell>{percentOfDefault(vehicle.coefficients, key)}%</TableCell>
+                      <TableCell>{percentOfDefault(fit.coefficients, key)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">Coefficients are shown as a percentage of a typical EV's.</p>
+            </>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={apply} disabled={!fit || fit.after.rmse >= fit.before.rmse}>Apply calibration</Button>
+            <Button variant="outline" onClick={reset}>Reset to defaults</Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,112 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { NumericInput } from "@/components/FormFields";
+import { ChargeCurve, chargeCurveSchema, typicalChargeCurve } from "@/lib/charging";
+import { cn } from "@/lib/utils";
+
+const chartConfig = {
+  kw: { label: 'Charging power', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface ChargeCurveEditorProps {
+  curve: ChargeCurve;
+  /** Pack size the typical curve is scaled to when resetting. */
+  batteryCapacity: number;
+  onChange: (curve: ChargeCurve) => void;
+}
+
+export function ChargeCurveEditor({ curve, batteryCapacity, onChange }: ChargeCurveEditorProps) {
+  const parsed = chargeCurveSchema.safeParse(curve);
+  const issues: Record<string, string> = parsed.success
+    ? {}
+    : Object.fromEntries(parsed.error.issues.map((issue) => [issue.path.join('.'), issue.message]));
+  const sorted = parsed.success ? [...curve].sort((a, b) => a.soc - b.soc) : [];
+
+  const setPoint = (index: number, changes: Partial<ChargeCurve[number]>) => {
+    onChange(curve.map((point, i) => (i === index ? { ...point, ...changes } : point)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {sorted.length > 0 && (
+        <ChartContainer config={chartConfig} className="aspect-[3/1] w-full">
+          <LineChart data={sorted} margin={{ top: 8, right: 12, bottom: 8, left: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="soc"
+              type="number"
+              domain={[0, 100]}
+              tickLine={false}
+              axisLine={false}
+              label={{ value: '%', position: 'insideBottomRight', offset: -4 }}
+            />
+            <YAxis width={40} tickLine={false} axisLine={false} domain={[0, 'auto']} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => `${payload?.[0]?.payload.soc}%`}
+                  formatter={(value) => `${value} kW`}
+                />
+              }
+            />
+            <Line dataKey="kw" type="linear" stroke="var(--color-kw)" strokeWidth={2} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Charge (%)</TableHead>
+            <TableHead>Power (kW)</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {curve.map((point, index) => (
+            <TableRow key={index}>
+              {(['soc', 'kw'] as const).map((field) => (
+                <TableCell key={field}>
+                  <NumericInput
+                    value={point[field]}
+                    onChange={(value) => setPoint(index, { [field]: value })}
+                    aria-label={field === 'soc' ? `Point ${index + 1} charge` : `Point ${index + 1} power`}
+                    aria-invalid={Boolean(issues[`${index}.${field}`])}
+                    title={issues[`${index}.${field}`]}
+                    className={cn(issues[`${index}.${field}`] && "border-destructive")}
+                  />
+                </TableCell>
+              ))}
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete point ${index + 1}`}
+                  disabled={curve.length <= 2}
+                  onClick={() => onChange(curve.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => onChange([...curve, { soc: 100, kw: curve[curve.length - 1]?.kw ?? 10 }])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add point
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onChange(typicalChargeCurve(batteryCapacity))}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset to typical
+        </Button>
+      </div>
+      {!parsed.success && (
+        <p className="text-sm text-destructive">Some points are out of range; hover a highlighted cell to see why.</p>
+      )}
+    </div>
+  );
+}
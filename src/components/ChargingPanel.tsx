@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, Receipt, Snowflake } from 'lucide-react';
+import { ChargeCurveEditor } from "@/components/ChargeCurveEditor";
+import { NumericInput } from "@/components/FormFields";
+import { TariffSheet } from "@/components/TariffSheet";
+import { useGarage } from "@/hooks/use-garage";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import {
+  CHARGER_TYPES,
+  ChargeCurve,
+  ChargerType,
+  chargeCurveSchema,
+  chargeSession,
+  coldChargeAcceptance,
+  formatDuration,
+} from "@/lib/charging";
+import { RangeInputs } from "@/lib/range-engine";
+import { cheapestStart, formatTimeOfDay, parseTimeOfDay, sessionCost, tariffSchema } from "@/lib/tariffs";
+import { roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+const DEFAULT_TARGET = 80;
+const DEFAULT_DEPARTURE = 7 * 60;
+
+/** The current time of day, rounded down to a quarter hour, in minutes after midnight. */
+function quarterHourNow(): number {
+  const now = new Date();
+  return now.getHours() * 60 + Math.floor(now.getMinutes() / 15) * 15;
+}
+
+const formatCost = (dollars: number) => `$${dollars.toFixed(2)}`;
+
+interface ChargingPanelProps {
+  inputs: RangeInputs;
+  /** Efficiency from the current estimate, in miles per kWh, used to turn energy into range. */
+  efficiency: number;
+  curve: ChargeCurve;
+  onCurveChange: (curve: ChargeCurve) => void;
+}
+
+export function ChargingPanel({ inputs, efficiency, curve, onCurveChange }: ChargingPanelProps) {
+  const { system } = useUnitSystem();
+  const { tariffs } = useGarage();
+  const [target, setTarget] = useState<number>(DEFAULT_TARGET);
+  const [chargerType, setChargerType] = useState<ChargerType>('dcfc');
+  // Each type remembers its own power so switching back and forth keeps what was entered.
+  const [chargerKw, setChargerKw] = useState<Record<ChargerType, number>>(() => ({
+    level1: CHARGER_TYPES.level1.defaultKw,
+    level2: CHARGER_TYPES.level2.defaultKw,
+    dcfc: CHARGER_TYPES.dcfc.defaultKw,
+  }));
+  const [tariffId, setTariffId] = useState<string>();
+  const [tariffsOpen, setTariffsOpen] = useState<boolean>(false);
+  const [pluggedIn, setPluggedIn] = useState<number>(quarterHourNow);
+  const [departure, setDeparture] = useState<number>(DEFAULT_DEPARTURE);
+
+  const { currentCharge, batteryCapacity, temperature } = inputs;
+  const kw = chargerKw[chargerType];
+  const { minKw, maxKw } = CHARGER_TYPES[chargerType];
+  const acceptance = coldChargeAcceptance(temperature);
+  const isValid = target > currentCharge && target <= 100 && kw >= minKw && kw <= maxKw
+    && chargeCurveSchema.safeParse(curve).success;
+
+  const session = useMemo(() => {
+    if (!isValid) {
+      return undefined;
+    }
+    const cold = chargeSession(curve, batteryCapacity, currentCharge, target, kw, acceptance);
+    const warm = chargeSession(curve, batteryCapacity, currentCharge, target, kw);
+    return { ...cold, coldDelay: cold.minutes - warm.minutes };
+  }, [isValid, curve, batteryCapacity, currentCharge, target, kw, acceptance]);
+
+  const distanceUnit = unitLabel('distance', system);
+  const rangeAdded = session ? session.energyAdded * efficiency : 0;
+
+  const tariff = tariffs.find((candidate) => candidate.id === tariffId) ?? tariffs[0];
+  const tariffValid = tariff !== undefined && tariffSchema.safeParse(tariff).success;
+  const gridEfficiency = CHARGER_TYPES[chargerType].efficiency;
+  const timesValid = Number.isFinite(pluggedIn) && Number.isFinite(departure);
+  const cost = session && tariffValid && timesValid ? sessionCost(tariff, session, gridEfficiency, pluggedIn) : undefined;
+  const cheapest = useMemo(
+    () => (session && tariffValid && tariff.kind === 'tou' && timesValid
+      ? cheapestStart(tariff, session, gridEfficiency, pluggedIn, departure) ?? null
+      : undefined),
+    [session, tariff, tariffValid, gridEfficiency, pluggedIn, departure, timesValid]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="charge-target" className="text-sm font-medium text-foreground">Charge to (%)</Label>
+          <NumericInput id="charge-target" value={target} onChange={setTarget} min={0} max={100} step={5} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="charge-power" className="text-sm font-medium text-foreground">Charger power (kW)</Label>
+          <NumericInput
+            id="charge-power"
+            value={kw}
+            onChange={(value) => setChargerKw({ ...chargerKw, [chargerType]: value })}
+            min={minKw}
+            max={maxKw}
+            step={chargerType === 'dcfc' ? 10 : 0.1}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(CHARGER_TYPES) as ChargerType[]).map((type) => (
+          <Button
+            key={type}
+            type="button"
+            size="sm"
+            variant={chargerType === type ? "default" : "outline"}
+            onClick={() => setChargerType(type)}
+            className="text-sm font-medium"
+          >
+            {CHARGER_TYPES[type].label}
+          </Button>
+        ))}
+      </div>
+
+      {!isValid && (
+        <p className="text-sm text-destructive">
+          {target <= currentCharge
+            ? `The battery is already at ${currentCharge}%; choose a higher target.`
+            : `Enter a target up to 100% and a ${CHARGER_TYPES[chargerType].label} power between ${minKw} and ${maxKw} kW.`}
+        </p>
+      )}
+      {session && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-foreground">{formatDuration(session.minutes)}</div>
+            <div className="text-sm text-muted-foreground">{currentCharge}% to {target}%</div>
+          </div>
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-foreground">{session.energyAdded.toFixed(1)} kWh</div>
+            <div className="text-sm text-muted-foreground">
+              +{Math.round(toDisplay('distance', rangeAdded, system))} {distanceUnit} of range
+            </div>
+          </div>
+          <div className="bg-muted/50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-foreground">
+              {roundForDisplay(toDisplay('distance', rangeAdded / session.minutes, system), 1)} {distanceUnit}
+            </div>
+            <div className="text-sm text-muted-foreground">of range per minute</div>
+          </div>
+        </div>
+      )}
+      {session && session.coldDelay >= 0.5 && (
+        <p className="text-sm text-muted-foreground flex items-start gap-2">
+          <Snowflake className="w-4 h-4 mt-0.5 shrink-0" />
+          At {roundForDisplay(toDisplay('temperature', temperature, system), 1)}{unitLabel('temperature', system)} a cold battery
+          {' '}accepts about {Math.round(acceptance * 100)}% of its usual power, adding {formatDuration(session.coldDelay)}.
+          {' '}Preconditioning on the way to the charger avoids most of this.
+        </p>
+      )}
+
+      <div className="space-y-4 border-t pt-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label className="text-sm font-medium text-foreground">Tariff</Label>
+            <Select value={tariff?.id ?? ''} onValueChange={setTariffId} disabled={tariffs.length === 0}>
+              <SelectTrigger aria-label="Tariff">
+                <SelectValue placeholder="No tariffs yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {tariffs.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" onClick={() => setTariffsOpen(true)}>
+            <Receipt className="w-4 h-4 mr-2" />
+            {tariffs.length === 0 ? 'Add tariff' : 'Tariffs'}
+          </Button>
+        </div>
+        {tariff && !tariffValid && (
+          <p className="text-sm text-destructive">{tariff.name} has missing or out-of-range prices; fix it under Tariffs.</p>
+        )}
+        {tariff?.kind === 'tou' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="charge-plugged-in" className="text-sm font-medium text-foreground">Plug in at</Label>
+              <Input
+                id="charge-plugged-in"
+                type="time"
+                value={formatTimeOfDay(pluggedIn)}
+                onChange={(e) => setPluggedIn(parseTimeOfDay(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="charge-departure" className="text-sm font-medium text-foreground">Leave at</Label>
+              <Input
+                id="charge-departure"
+                type="time"
+                value={formatTimeOfDay(departure)}
+                onChange={(e) => setDeparture(parseTimeOfDay(e.target.value))}
+              />
+            </div>
+          </div>
+        )}
+        {cost !== undefined && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-muted/50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-foreground">{formatCost(cost)}</div>
+              <div className="text-sm text-muted-foreground">
+                To charge{tariff.kind === 'tou' ? ` starting at ${formatTimeOfDay(pluggedIn)}` : ''}
+              </div>
+            </div>
+            <div className="bg-muted/50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-foreground">
+                ${(cost / toDisplay('distance', rangeAdded, system)).toFixed(3)}
+              </div>
+              <div className="text-sm text-muted-foreground">per {distanceUnit} at the estimated efficiency</div>
+            </div>
+          </div>
+        )}
+        {cheapest === null && (
+          <p className="text-sm text-destructive">
+            Charging takes {formatDuration(session.minutes)}, which does not fit between {formatTimeOfDay(pluggedIn)} and {formatTimeOfDay(departure)}.
+          </p>
+        )}
+        {cheapest && (
+          <p className="text-sm text-muted-foreground">
+            {cheapest.cost < cost - 0.005
+              ? <>Cheapest: start at <span className="font-medium text-foreground">{formatTimeOfDay(cheapest.start)}</span> for {formatCost(cheapest.cost)}, saving {formatCost(cost - cheapest.cost)} and finishing by {formatTimeOfDay(cheapest.start + session.minutes)}.</>
+              : <>Plugging in at {formatTimeOfDay(pluggedIn)} is already the cheapest way to be ready by {formatTimeOfDay(departure)}.</>}
+          </p>
+        )}
+      </div>
+      <TariffSheet open={tariffsOpen} onOpenChange={setTariffsOpen} />
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="px-0 text-sm group">
+            <ChevronDown className="w-4 h-4 mr-1 transition-transform group-data-[state=open]:rotate-180" />
+            Charging curve
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <ChargeCurveEditor curve={curve} batteryCapacity={batteryCapacity} onChange={onCurveChange} />
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
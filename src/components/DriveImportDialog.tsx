@@ -0,0 +1,272 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { Upload } from 'lucide-react';
+import { useDriveLog } from "@/hooks/use-drive-log";
+import { useGarage } from "@/hooks/use-garage";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import {
+  ColumnMapping,
+  CsvTable,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportUnits,
+  UNIT_OPTIONS,
+  detectUnits,
+  guessMapping,
+  importDrives,
+  mappingProblems,
+  parseCsv,
+} from "@/lib/drive-import";
+import { DEFAULT_INPUTS } from "@/lib/range-engine";
+
+/** Select value for a field the file has no column for. */
+const NOT_IN_FILE = 'none';
+/** Row problems listed before the rest are summarised as a count. */
+const MAX_ISSUES_SHOWN = 20;
+
+/** The quantity whose unit each mapped field's header and values reveal. */
+const UNIT_FIELDS: Partial<Record<ImportField, keyof ImportUnits>> = {
+  distance: 'distance',
+  avgSpeed: 'speed',
+  temperature: 'temperature',
+  energyUsed: 'energy',
+};
+
+const UNIT_LABELS: Record<keyof ImportUnits, string> = {
+  distance: 'Distance',
+  speed: 'Speed',
+  temperature: 'Temperature',
+  energy: 'Energy',
+};
+
+interface DriveImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DriveImportDialog({ open, onOpenChange }: DriveImportDialogProps) {
+  const { system } = useUnitSystem();
+  const { vehicles, activeVehicle } = useGarage();
+  const { drives: existing, addDrives } = useDriveLog();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string>();
+  const [table, setTable] = useState<CsvTable>();
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [units, setUnits] = useState<ImportUnits>();
+  // Units chosen by hand, which remapping a column must not overwrite.
+  const [pickedUnits, setPickedUnits] = useState<(keyof ImportUnits)[]>([]);
+  const [vehicleId, setVehicleId] = useState<string | undefined>(activeVehicle?.id);
+
+  const vehicle = vehicles.find((candidate) => candidate.id === vehicleId) ?? vehicles[0];
+  const problems = mappingProblems(mapping);
+  const preview = useMemo(
+    () => (table && vehicle && mappingProblems(mapping).length === 0
+      ? importDrives(table, mapping, units, vehicle, vehicle.calibration?.model ?? DEFAULT_INPUTS.model, existing, system)
+      : undefined),
+    [table, mapping, units, vehicle, existing, system]
+  );
+
+  const loadFile = async (file: File) => {
+    try {
+      const parsed = parseCsv(await file.text());
+      const guessed = guessMapping(parsed.headers);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessed);
+      setUnits(detectUnits(parsed, guessed, system));
+      setPickedUnits([]);
+    } catch (error) {
+      toast.error('Could not read the file', { description: (error as Error).message });
+    }
+  };
+
+  const reset = () => {
+    setFileName(undefined);
+    setTable(undefined);
+    setMapping({});
+    setUnits(undefined);
+    setPickedUnits([]);
+  };
+
+  const close = (next: boolean) => {
+    if (!next) {
+      reset();
+    }
+    onOpenChange(next);
+  };
+
+  const runImport = () => {
+    addDrives(preview.drives);
+    toast.success(`Imported ${preview.drives.length} drive${preview.drives.length === 1 ? '' : 's'} for ${vehicle.name}`);
+    close(false);
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping, [field]: value === NOT_IN_FILE ? undefined : Number(value) };
+    setMapping(next);
+    const quantity = UNIT_FIELDS[field];
+    if (quantity && !pickedUnits.includes(quantity)) {
+      setUnits({ ...units, [quantity]: detectUnits(table, next, system)[quantity] });
+    }
+  };
+
+  const pickUnit = <K extends keyof ImportUnits>(quantity: K, unit: ImportUnits[K]) => {
+    setUnits({ ...units, [quantity]: unit });
+    setPickedUnits((current) => (current.includes(quantity) ? current : [...current, quantity]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import drives</DialogTitle>
+          <DialogDescription>
+            Bring in trips exported as CSV from TeslaMate, ABRP or your car's app. Match the file's columns to what they hold, check the
+            {' '}units, and every valid row becomes a logged drive for the chosen car.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" onClick={() => fileInput.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {table ? 'Choose another file' : 'Choose CSV file'}
+            </Button>
+            {fileName && <span className="text-sm text-muted-foreground">{fileName}, {table.rows.length} rows</span>}
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/csv,.csv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  loadFile(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {table && (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-foreground">Vehicle</p>
+                <Select value={vehicle?.id} onValueChange={setVehicleId}>
+                  <SelectTrigger aria-label="Vehicle driven">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-foreground">Columns</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                    <div key={field} className="space-y-1">
+                      <p className="text-sm font-medium text-foreground">{IMPORT_FIELDS[field].label}</p>
+                      <Select value={mapping[field] === undefined ? NOT_IN_FILE : String(mapping[field])} onValueChange={(value) => setColumn(field, value)}>
+                        <SelectTrigger aria-label={`${IMPORT_FIELDS[field].label} column`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                          {table.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">{IMPORT_FIELDS[field].help}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-foreground">Units in the file</h3>
+                <p className="text-xs text-muted-foreground">Detected from the column names and values; correct any that are wrong.</p>
+                <div className="grid grid-cols-2 gap-4">
+                  {(Object.keys(UNIT_OPTIONS) as (keyof ImportUnits)[]).map((quantity) => (
+                    <div key={quantity} className="space-y-1">
+                      <p className="text-sm font-medium text-foreground">{UNIT_LABELS[quantity]}</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {UNIT_OPTIONS[quantity].map((option) => (
+                          <Button
+                            key={option}
+                            type="button"
+                            size="sm"
+                            variant={units[quantity] === option ? "default" : "outline"}
+                            onClick={() => pickUnit(quantity, option)}
+                            className="text-sm font-medium"
+                          >
+                            {option}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {problems.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-destructive space-y-1">
+                  {problems.map((problem) => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {vehicles.length === 0 && (
+                <p className="text-sm text-destructive">Save the car to your garage first, so the drives have a vehicle to belong to.</p>
+              )}
+
+              {preview && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{preview.drives.length}</span> new drives,
+                    {' '}<span className="font-medium text-foreground">{preview.duplicates.length}</span> already logged,
+                    {' '}<span className="font-medium text-foreground">{preview.issues.length}</span> rows with problems.
+                  </p>
+                  {preview.issues.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Line</TableHead>
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.issues.slice(0, MAX_ISSUES_SHOWN).map((issue) => (
+                          <TableRow key={issue.line}>
+                            <TableCell>{issue.line}</TableCell>
+                            <TableCell>{issue.messages.join('; ')}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {preview.issues.length > MAX_ISSUES_SHOWN && (
+                    <p className="text-xs text-muted-foreground">…and {preview.issues.length - MAX_ISSUES_SHOWN} more rows with problems.</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => close(false)}>Cancel</Button>
+          <Button onClick={runImport} disabled={!preview || preview.drives.length === 0}>
+            Import drives
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Control, FieldPath, FieldValues } from 'react-hook-form';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { HoverCard, HoverCardTrigger, HoverCardContent } from "@/components/ui/hover-card";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { HelpCircle } from 'lucide-react';
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { cn } from "@/lib/utils";
+import { Quantity, fromDisplay, roundForDisplay, toDisplay } from "@/lib/units";
+
+export const NumericInput = React.forwardRef<
+  HTMLInputElement,
+  Omit<React.ComponentProps<"input">, "onChange"> & { onChange: (value: number) => void }
+>(({ className, value, onChange, ...props }, ref) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsedValue = parseFloat(e.target.value);
+    if (!isNaN(parsedValue)) {
+      onChange(parsedValue);
+    } else if (e.target.value === "") {
+      onChange(NaN);
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      className={className}
+      value={isNaN(value as number) ? '' : (value as number)}
+      onChange={handleChange}
+      ref={ref}
+      {...props}
+    />
+  );
+});
+NumericInput.displayName = "NumericInput";
+
+interface HelpLabelProps {
+  label: React.ReactNode;
+  help: string;
+}
+
+function HelpLabel({ label, help }: HelpLabelProps) {
+  return (
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <FormLabel className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
+          {label}
+          <HelpCircle className="w-4 h-4" />
+        </FormLabel>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <p className="text-sm">{help}</p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+interface NumberFieldProps<T extends FieldValues> extends HelpLabelProps {
+  control: Control<T>;
+  name: FieldPath<T>;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Converts the stored canonical value to and from the user's unit system. */
+  quantity?: Quantity;
+  children?: React.ReactNode;
+}
+
+export function NumberField<T extends FieldValues>({ control, name, label, help, min, max, step, quantity, children }: NumberFieldProps<T>) {
+  const { system } = useUnitSystem();
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <HelpLabel label={label} help={help} />
+          <FormControl>
+            <NumericInput
+              {...field}
+              value={quantity ? roundForDisplay(toDisplay(quantity, field.value, system)) : field.value}
+              onChange={(value) => field.onChange(quantity && !isNaN(value) ? fromDisplay(quantity, value, system) : value)}
+              min={min}
+              max={max}
+              step={step}
+              className="text-base"
+            />
+          </FormControl>
+          {children}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface ChoiceFieldProps<T extends FieldValues, V extends string> extends HelpLabelProps {
+  control: Control<T>;
+  name: FieldPath<T>;
+  options: readonly V[];
+}
+
+export function ChoiceField<T extends FieldValues, V extends string>({ control, name, label, help, options }: ChoiceFieldProps<T, V>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <HelpLabel label={label} help={help} />
+          <div className={cn("grid gap-3", options.length === 2 ? "grid-cols-2" : "grid-cols-3")}>
+            {options.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={field.value === option ? "default" : "outline"}
+                onClick={() => field.onChange(option)}
+                className="text-sm font-medium"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
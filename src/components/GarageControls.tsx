@@ -0,0 +1,322 @@
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { toast } from "@/components/ui/sonner";
+import { Download, Gauge, Save, Settings2, Trash2, Upload } from 'lucide-react';
+import { CalibrationSheet } from "@/components/CalibrationSheet";
+import { NumberField } from "@/components/FormFields";
+import { useGarage } from "@/hooks/use-garage";
+import { GarageVehicle, createGarageVehicle, parseGarage, serializeGarage, vehicleSpecs } from "@/lib/garage";
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeInputs } from "@/lib/range-engine";
+import { COEFFICIENT_BOUNDS } from "@/lib/range-schema";
+
+const NO_VEHICLE = 'none';
+
+const CALIBRATION_FIELDS: { key: keyof ModelCoefficients; label: string; help: string }[] = [
+  { key: 'rangeScale', label: 'Overall Range (%)', help: 'Scales the whole estimate. Use it when your car consistently goes further or less far than estimated in mild weather.' },
+  { key: 'temperature', label: 'Temperature Sensitivity (%)', help: 'How strongly cold and heat cut range in the simple model, relative to a typical EV.' },
+  { key: 'speed', label: 'Speed Sensitivity (%)', help: 'How strongly high speed cuts range in the simple model, relative to a typical EV.' },
+  { key: 'cabinHeatTransfer', label: 'Cabin Heat Loss (%)', help: 'How quickly the cabin gains or loses heat, relative to a typical EV. Larger or less insulated cabins need more climate power.' },
+];
+
+// Calibration is edited as a percentage of the default so it reads the same in either unit system.
+const percentBounds = (key: keyof ModelCoefficients) => ({
+  min: Math.ceil((COEFFICIENT_BOUNDS[key].min / DEFAULT_COEFFICIENTS[key]) * 100),
+  max: Math.floor((COEFFICIENT_BOUNDS[key].max / DEFAULT_COEFFICIENTS[key]) * 100),
+});
+
+const percentField = (key: keyof ModelCoefficients) => {
+  const { min, max } = percentBounds(key);
+  return z
+    .number({ required_error: 'Enter a number', invalid_type_error: 'Enter a number' })
+    .min(min, `Must be at least ${min}%`)
+    .max(max, `Must be at most ${max}%`);
+};
+
+const saveVehicleSchema = z.object({
+  name: z.string().trim().min(1, 'Enter a name').max(60, 'Keep the name under 60 characters'),
+  rangeScale: percentField('rangeScale'),
+  temperature: percentField('temperature'),
+  speed: percentField('speed'),
+  cabinHeatTransfer: percentField('cabinHeatTransfer'),
+});
+
+type SaveVehicleValues = { name: string } & Record<keyof ModelCoefficients, number>;
+
+function toPercentages(coefficients: ModelCoefficients): Record<keyof ModelCoefficients, number> {
+  return {
+    rangeScale: Math.round((coefficients.rangeScale / DEFAULT_COEFFICIENTS.rangeScale) * 100),
+    temperature: Math.round((coefficients.temperature / DEFAULT_COEFFICIENTS.temperature) * 100),
+    speed: Math.round((coefficients.speed / DEFAULT_COEFFICIENTS.speed) * 100),
+    cabinHeatTransfer: Math.round((coefficients.cabinHeatTransfer / DEFAULT_COEFFICIENTS.cabinHeatTransfer) * 100),
+  };
+}
+
+function fromPercentages(values: SaveVehicleValues): ModelCoefficients {
+  return {
+    rangeScale: (values.rangeScale / 100) * DEFAULT_COEFFICIENTS.rangeScale,
+    temperature: (values.temperature / 100) * DEFAULT_COEFFICIENTS.temperature,
+    speed: (values.speed / 100) * DEFAULT_COEFFICIENTS.speed,
+    cabinHeatTransfer: (values.cabinHeatTransfer / 100) * DEFAULT_COEFFICIENTS.cabinHeatTransfer,
+  };
+}
+
+interface SaveVehicleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inputs: RangeInputs;
+  catalogId?: string;
+  suggestedName: string;
+}
+
+function SaveVehicleDialog({ open, onOpenChange, inputs, catalogId, suggestedName }: SaveVehicleDialogProps) {
+  const { activeVehicle, addVehicle, updateVehicle } = useGarage();
+  const form = useForm<SaveVehicleValues>({
+    resolver: zodResolver(saveVehicleSchema),
+    values: {
+      name: activeVehicle?.name ?? suggestedName,
+      ...toPercentages(activeVehicle?.coefficients ?? DEFAULT_COEFFICIENTS),
+    },
+  });
+
+  const saveAsNew = (values: SaveVehicleValues) => {
+    addVehicle(createGarageVehicle(values.name, vehicleSpecs(inputs), fromPercentages(values), catalogId));
+    toast.success(`Saved ${values.name.trim()} to your garage`);
+    onOpenChange(false);
+  };
+
+  const update = (values: SaveVehicleValues) => {
+    // Percentages are rounded, so only replace the coefficients (and any fit behind them) when they were edited.
+    const current = toPercentages(activeVehicle.coefficients);
+    const edited = CALIBRATION_FIELDS.some((field) => values[field.key] !== current[field.key]);
+    updateVehicle(activeVehicle.id, {
+      name: values.name.trim(),
+      specs: vehicleSpecs(inputs),
+      coefficients: edited ? fromPercentages(values) : activeVehicle.coefficients,
+      calibration: edited ? undefined : activeVehicle.calibration,
+      catalogId,
+    });
+    toast.success(`Updated ${values.name.trim()}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Save vehicle</DialogTitle>
+          <DialogDescription>
+            Stores the current vehicle specs under a name, along with calibration for how this car compares with a typical EV.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(activeVehicle ? update : saveAsNew)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-medium text-foreground">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Family Model Y" className="text-base" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {CALIBRATION_FIELDS.map((field) => (
+                <NumberField
+                  key={field.key}
+                  control={form.control}
+                  name={field.key}
+                  label={field.label}
+                  help={field.help}
+                  step={1}
+                  {...percentBounds(field.key)}
+                />
+              ))}
+            </div>
+            <DialogFooter className="gap-2">
+              {activeVehicle && (
+                <Button type="button" variant="outline" onClick={form.handleSubmit(saveAsNew)}>
+                  Save as new
+                </Button>
+              )}
+              <Button type="submit">{activeVehicle ? `Update ${activeVehicle.name}` : 'Save'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ManageGarageSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ManageGarageSheet({ open, onOpenChange }: ManageGarageSheetProps) {
+  const { vehicles, tariffs, updateVehicle, removeVehicle, importGarage } = useGarage();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const rename = (vehicle: GarageVehicle, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== vehicle.name) {
+      updateVehicle(vehicle.id, { name: trimmed });
+    }
+  };
+
+  const exportGarage = () => {
+    const url = URL.createObjectURL(new Blob([serializeGarage({ vehicles, tariffs })], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ev-garage.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseGarage(await file.text());
+      importGarage(imported);
+      const count = (length: number, noun: string) => `${length} ${noun}${length === 1 ? '' : 's'}`;
+      toast.success(`Imported ${count(imported.vehicles.length, 'vehicle')} and ${count(imported.tariffs.length, 'tariff')}`);
+    } catch (error) {
+      toast.error('Could not import garage', { description: (error as Error).message });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Garage</SheetTitle>
+          <SheetDescription>Rename or remove saved vehicles, or move them and your tariffs between browsers as a JSON file.</SheetDescription>
+        </SheetHeader>
+        <div className="space-y-3 my-6">
+          {vehicles.length === 0 && <p className="text-sm text-muted-foreground">No saved vehicles yet.</p>}
+          {vehicles.map((vehicle) => (
+            <div key={`${vehicle.id}:${vehicle.name}`} className="flex items-center gap-2">
+              <Input
+                defaultValue={vehicle.name}
+                aria-label="Vehicle name"
+                maxLength={60}
+                onBlur={(e) => rename(vehicle, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              />
+              <Button variant="ghost" size="icon" aria-label={`Delete ${vehicle.name}`} onClick={() => removeVehicle(vehicle.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={exportGarage} disabled={vehicles.length === 0 && tariffs.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                importFile(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface GarageControlsProps {
+  inputs: RangeInputs;
+  catalogId?: string;
+  /** Name offered when saving a vehicle that is not in the garage yet. */
+  suggestedName: string;
+  onActivate: (vehicle: GarageVehicle) => void;
+}
+
+export function GarageControls({ inputs, catalogId, suggestedName, onActivate }: GarageControlsProps) {
+  const { vehicles, activeId, activeVehicle, setActiveVehicle } = useGarage();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [calibrateOpen, setCalibrateOpen] = useState(false);
+
+  const select = (id: string) => {
+    const vehicle = vehicles.find((candidate) => candidate.id === id);
+    setActiveVehicle(vehicle?.id);
+    if (vehicle) {
+      onActivate(vehicle);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={activeId ?? NO_VEHICLE} onValueChange={select}>
+        <SelectTrigger className="text-base" aria-label="Saved vehicle">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_VEHICLE}>Unsaved vehicle</SelectItem>
+          {vehicles.map((vehicle) => (
+            <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" size="icon" aria-label="Save vehicle" onClick={() => setSaveOpen(true)}>
+        <Save className="w-4 h-4" />
+      </Button>
+      {activeVehicle && (
+        <Button type="button" variant="outline" size="icon" aria-label="Calibrate from logged drives" onClick={() => setCalibrateOpen(true)}>
+          <Gauge className="w-4 h-4" />
+        </Button>
+      )}
+      <Button type="button" variant="outline" size="icon" aria-label="Manage garage" onClick={() => setManageOpen(true)}>
+        <Settings2 className="w-4 h-4" />
+      </Button>
+      <SaveVehicleDialog
+        open={saveOpen}
+        onOpenChange={setSaveOpen}
+        inputs={inputs}
+        catalogId={catalogId}
+        suggestedName={suggestedName}
+      />
+      <ManageGarageSheet open={manageOpen} onOpenChange={setManageOpen} />
+      {activeVehicle && (
+        <CalibrationSheet
+          key={activeVehicle.id}
+          open={calibrateOpen}
+          onOpenChange={setCalibrateOpen}
+          vehicle={activeVehicle}
+          inputs={inputs}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from 'lucide-react';
+import { NumericInput } from "@/components/FormFields";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { GoalSeekVariable, goalSeek } from "@/lib/goal-seek";
+import { ModelCoefficients, RangeInputs } from "@/lib/range-engine";
+import { fromDisplay, roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+const VARIABLES: { value: GoalSeekVariable; label: string }[] = [
+  { value: 'avgSpeed', label: 'Speed' },
+  { value: 'currentCharge', label: 'Charge' },
+  { value: 'cabinTemperature', label: 'Climate' },
+];
+
+const DEFAULT_RESERVE = 10;
+const MAX_RESERVE = 50;
+
+interface GoalSeekPanelProps {
+  inputs: RangeInputs;
+  coefficients: ModelCoefficients;
+  /** Copies a solved value into the estimator inputs. */
+  onApply: (values: Partial<RangeInputs>) => void;
+}
+
+export function GoalSeekPanel({ inputs, coefficients, onApply }: GoalSeekPanelProps) {
+  const { system } = useUnitSystem();
+  const [variable, setVariable] = useState<GoalSeekVariable>('avgSpeed');
+  const [distance, setDistance] = useState<number>(inputs.routeDistance);
+  const [reserve, setReserve] = useState<number>(DEFAULT_RESERVE);
+
+  const distanceUnit = unitLabel('distance', system);
+  const isValid = distance > 0 && reserve >= 0 && reserve <= MAX_RESERVE;
+  const result = useMemo(
+    () => (isValid ? goalSeek(inputs, variable, { distance, reserve }, coefficients) : undefined),
+    [inputs, variable, distance, reserve, coefficients, isValid]
+  );
+
+  const formatValue = (value: number) => {
+    if (variable === 'currentCharge') {
+      return `${Math.ceil(value)}%`;
+    }
+    if (variable === 'avgSpeed') {
+      return `${Math.floor(toDisplay('speed', value, system))} ${unitLabel('speed', system)}`;
+    }
+    return `${roundForDisplay(toDisplay('temperature', value, system), 1)}${unitLabel('temperature', system)}`;
+  };
+  const answer = {
+    avgSpeed: 'Fastest average speed',
+    currentCharge: 'Lowest charge to leave with',
+    cabinTemperature: 'Cabin setpoint closest to yours',
+  }[variable];
+  const bestCase = {
+    avgSpeed: 'at the most efficient speed',
+    currentCharge: 'leaving with a full battery',
+    cabinTemperature: 'with the cabin as close to the outside temperature as climate control allows',
+  }[variable];
+  // Speed rounds down and charge rounds up so the displayed answer still makes the trip.
+  const appliedValue = (value: number) => {
+    if (variable === 'currentCharge') {
+      return Math.ceil(value);
+    }
+    if (variable === 'avgSpeed') {
+      return fromDisplay('speed', Math.floor(toDisplay('speed', value, system)), system);
+    }
+    return value;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="goal-distance" className="text-sm font-medium text-foreground">Distance to go ({distanceUnit})</Label>
+          <NumericInput
+            id="goal-distance"
+            value={roundForDisplay(toDisplay('distance', distance, system), 1)}
+            onChange={(value) => setDistance(isNaN(value) ? NaN : fromDisplay('distance', value, system))}
+            min={0}
+            step={1}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="goal-reserve" className="text-sm font-medium text-foreground">Arrive with at least (%)</Label>
+          <NumericInput id="goal-reserve" value={reserve} onChange={setReserve} min={0} max={MAX_RESERVE} step={1} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-foreground">Solve for</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {VARIABLES.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={variable === option.value ? "default" : "outline"}
+              onClick={() => setVariable(option.value)}
+              className="text-sm font-medium"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!isValid && (
+        <p className="text-sm text-destructive">Enter a distance above zero and a reserve between 0 and {MAX_RESERVE}%.</p>
+      )}
+      {result?.solved && (
+        <div className="bg-muted/50 rounded-lg p-4 flex items-center justify-between gap-4">
+          <div>
+            <div className="text-2xl font-bold text-foreground">{formatValue(result.value)}</div>
+            <div className="text-sm text-muted-foreground">{answer}</div>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={() => onApply({ [variable]: appliedValue(result.value) })}>
+            Use this
+          </Button>
+        </div>
+      )}
+      {result?.solved && result.clamped && (
+        <p className="text-xs text-muted-foreground">
+          Every speed is past the range the speed curve is calibrated for with these coefficients, so treat this answer as a rough guide.
+        </p>
+      )}
+      {result?.solved === false && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>No solution</AlertTitle>
+          <AlertDescription>
+            Even {bestCase} ({formatValue(result.best)}), you would reach only
+            {' '}{Math.round(toDisplay('distance', result.reach, system))} of {Math.round(toDisplay('distance', distance, system))} {distanceUnit}
+            {' '}before dropping to {reserve}%. Try solving for another input, or plan a charging stop.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
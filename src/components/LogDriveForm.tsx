@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toast } from "@/components/ui/sonner";
+import { NumberField } from "@/components/FormFields";
+import { useDriveLog } from "@/hooks/use-drive-log";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { DriveValues, buildDriveSchema, createLoggedDrive, today } from "@/lib/drive-log";
+import { GarageVehicle } from "@/lib/garage";
+import { RangeInputs, RangeModel } from "@/lib/range-engine";
+import { INPUT_BOUNDS, displayBounds, inputUnit } from "@/lib/range-schema";
+
+const DRIVE_FIELDS: { key: Exclude<keyof DriveValues, 'date'>; label: string; help: string }[] = [
+  { key: 'distance', label: 'Distance', help: 'How far the drive went, from the trip meter.' },
+  { key: 'chargeUsed', label: 'Charge Used (%)', help: 'Battery percentage at the start minus at the end.' },
+  { key: 'temperature', label: 'Outside Temperature', help: 'Typical outside temperature over the drive.' },
+  { key: 'avgSpeed', label: 'Average Speed', help: 'Average moving speed, from the trip computer.' },
+  { key: 'cabinTemperature', label: 'Cabin Temperature', help: 'Climate control setpoint during the drive.' },
+  { key: 'elevationGain', label: 'Elevation Gain', help: 'Total climbing over the drive.' },
+  { key: 'elevationLoss', label: 'Elevation Loss', help: 'Total descent over the drive.' },
+];
+
+/** Drive fields reuse the bounds of the estimator inputs they feed. */
+const INPUT_FOR_FIELD = {
+  distance: 'routeDistance',
+  temperature: 'temperature',
+  avgSpeed: 'avgSpeed',
+  cabinTemperature: 'cabinTemperature',
+  elevationGain: 'elevationGain',
+  elevationLoss: 'elevationLoss',
+} as const;
+
+interface LogDriveFormProps {
+  vehicle: GarageVehicle;
+  /** Model the stored prediction is made with. */
+  model: RangeModel;
+  /** Conditions to pre-fill, usually the estimator's. */
+  conditions: Pick<RangeInputs, 'temperature' | 'avgSpeed' | 'cabinTemperature'>;
+  onLogged?: () => void;
+}
+
+export function LogDriveForm({ vehicle, model, conditions, onLogged }: LogDriveFormProps) {
+  const { system } = useUnitSystem();
+  const { addDrive } = useDriveLog();
+  const schema = useMemo(() => buildDriveSchema(system), [system]);
+  const form = useForm<DriveValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      date: today(),
+      distance: 30,
+      chargeUsed: 10,
+      temperature: conditions.temperature,
+      avgSpeed: conditions.avgSpeed,
+      cabinTemperature: conditions.cabinTemperature,
+      elevationGain: 0,
+      elevationLoss: 0,
+    },
+  });
+
+  const logDrive = (values: DriveValues) => {
+    addDrive(createLoggedDrive(vehicle.id, vehicle.specs, model, vehicle.coefficients, values));
+    form.reset({ ...values, date: today() });
+    toast.success('Drive logged');
+    onLogged?.();
+  };
+
+  const fieldLabel = (field: (typeof DRIVE_FIELDS)[number]) =>
+    field.key === 'chargeUsed' ? field.label : `${field.label} (${inputUnit(INPUT_FOR_FIELD[field.key], system)})`;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(logDrive)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-base font-medium text-foreground">Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} className="text-base" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {DRIVE_FIELDS.map((field) => (
+            <NumberField
+              key={field.key}
+              control={form.control}
+              name={field.key}
+              label={fieldLabel(field)}
+              help={field.help}
+              {...(field.key === 'chargeUsed'
+                ? { min: 0, max: 100, step: 1 }
+                : { ...displayBounds(INPUT_FOR_FIELD[field.key], system), quantity: INPUT_BOUNDS[INPUT_FOR_FIELD[field.key]].quantity })}
+            />
+          ))}
+        </div>
+        <Button type="submit">Log drive</Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { ModelCoefficients, RangeInputs } from "@/lib/range-engine";
+import { sweepRange } from "@/lib/range-analysis";
+import { Quantity, roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+const chartConfig = {
+  range: { label: 'Estimated range', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+/** One point per mph and roughly one per 2 °F keeps the curves smooth without much work. */
+const CURVES: { key: 'avgSpeed' | 'temperature'; title: string; quantity: Quantity; points: number }[] = [
+  { key: 'avgSpeed', title: 'Range vs Speed', quantity: 'speed', points: 81 },
+  { key: 'temperature', title: 'Range vs Temperature', quantity: 'temperature', points: 71 },
+];
+
+interface RangeCurvesProps {
+  inputs: RangeInputs;
+  coefficients: ModelCoefficients;
+  /** Range at the current inputs, where the marker sits. */
+  estimatedRange: number;
+}
+
+export function RangeCurves({ inputs, coefficients, estimatedRange }: RangeCurvesProps) {
+  const { system } = useUnitSystem();
+  const distanceUnit = unitLabel('distance', system);
+
+  const curves = useMemo(() => CURVES.map((curve) => ({
+    ...curve,
+    data: sweepRange(inputs, curve.key, curve.points, coefficients).map((point) => ({
+      x: roundForDisplay(toDisplay(curve.quantity, point.value, system), 1),
+      range: roundForDisplay(toDisplay('distance', point.estimatedRange, system), 0),
+    })),
+  })), [inputs, coefficients, system]);
+
+  return (
+    <div className="space-y-6">
+      {curves.map((curve) => {
+        const unit = unitLabel(curve.quantity, system);
+        return (
+          <div key={curve.key}>
+            <p className="text-sm font-medium text-foreground mb-2">{curve.title}</p>
+            <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+              <LineChart data={curve.data} margin={{ top: 8, right: 12, bottom: 8, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: number) => `${Math.round(value)}`}
+                  label={{ value: unit, position: 'insideBottomRight', offset: -4 }}
+                />
+                <YAxis width={40} tickLine={false} axisLine={false} domain={[0, 'auto']} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `${payload?.[0]?.payload.x} ${unit}`}
+                      formatter={(value) => `${value} ${distanceUnit}`}
+                    />
+                  }
+                />
+                <Line dataKey="range" type="monotone" stroke="var(--color-range)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <ReferenceDot
+                  x={roundForDisplay(toDisplay(curve.quantity, inputs[curve.key], system), 1)}
+                  y={roundForDisplay(toDisplay('distance', estimatedRange, system), 0)}
+                  r={5}
+                  fill="var(--color-range)"
+                  stroke="hsl(var(--background))"
+                  strokeWidth={2}
+                />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
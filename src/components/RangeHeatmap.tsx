@@ -0,0 +1,129 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { Label } from "@/components/ui/label";
+import { NumericInput } from "@/components/FormFields";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { ModelCoefficients, RangeInputs } from "@/lib/range-engine";
+import { rangeGrid } from "@/lib/range-analysis";
+import { fromDisplay, roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+/** 5 mph by 10 °F cells: fine enough to read, cheap enough to rebuild on every keystroke. */
+const COLUMNS = 17;
+const ROWS = 15;
+const CELL_WIDTH = 24;
+const CELL_HEIGHT = 18;
+const LEFT = 36;
+const BOTTOM = 28;
+const WIDTH = LEFT + COLUMNS * CELL_WIDTH;
+const HEIGHT = ROWS * CELL_HEIGHT + BOTTOM;
+const DEFAULT_THRESHOLD = 200;
+
+// Red for the shortest range on the grid through to green for the longest.
+const rangeColor = (share: number) => `hsl(${Math.round(share * 130)} 70% 48%)`;
+
+interface RangeHeatmapProps {
+  inputs: RangeInputs;
+  coefficients: ModelCoefficients;
+}
+
+export function RangeHeatmap({ inputs, coefficients }: RangeHeatmapProps) {
+  const { system } = useUnitSystem();
+  const [threshold, setThreshold] = useState<number>(DEFAULT_THRESHOLD);
+  // Rebuilding the grid can lag behind typing without holding the form up.
+  const deferredInputs = useDeferredValue(inputs);
+
+  const grid = useMemo(
+    () => rangeGrid(deferredInputs, 'avgSpeed', 'temperature', COLUMNS, ROWS, coefficients),
+    [deferredInputs, coefficients]
+  );
+  const all = grid.ranges.flat();
+  const low = Math.min(...all);
+  const high = Math.max(...all);
+  const distanceUnit = unitLabel('distance', system);
+  const formatDistance = (miles: number) => Math.round(toDisplay('distance', miles, system));
+
+  // Rows are drawn hottest at the top, so row 0 of the grid is the bottom row on screen.
+  const cellX = (column: number) => LEFT + column * CELL_WIDTH;
+  const cellY = (row: number) => (ROWS - 1 - row) * CELL_HEIGHT;
+  const passes = (row: number, column: number) => grid.ranges[row][column] >= threshold;
+
+  const contour: { x1: number; y1: number; x2: number; y2: number }[] = [];
+  grid.ranges.forEach((cells, row) => {
+    cells.forEach((_, column) => {
+      if (column + 1 < COLUMNS && passes(row, column) !== passes(row, column + 1)) {
+        const x = cellX(column + 1);
+        contour.push({ x1: x, y1: cellY(row), x2: x, y2: cellY(row) + CELL_HEIGHT });
+      }
+      if (row + 1 < ROWS && passes(row, column) !== passes(row + 1, column)) {
+        const y = cellY(row);
+        contour.push({ x1: cellX(column), y1: y, x2: cellX(column) + CELL_WIDTH, y2: y });
+      }
+    });
+  });
+
+  const position = (value: number, values: number[]) =>
+    ((value - values[0]) / (values[values.length - 1] - values[0])) * (values.length - 1);
+  const markerX = cellX(position(inputs.avgSpeed, grid.xs)) + CELL_WIDTH / 2;
+  const markerY = cellY(position(inputs.temperature, grid.ys)) + CELL_HEIGHT / 2;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="range-threshold" className="text-sm font-medium text-foreground whitespace-nowrap">
+          At least ({distanceUnit})
+        </Label>
+        <NumericInput
+          id="range-threshold"
+          value={roundForDisplay(toDisplay('distance', threshold, system), 0)}
+          onChange={(value) => !isNaN(value) && setThreshold(fromDisplay('distance', value, system))}
+          min={0}
+          step={10}
+          className="w-28"
+        />
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-muted-foreground" role="img" aria-label="Estimated range by speed and temperature">
+        {grid.ranges.map((cells, row) =>
+          cells.map((range, column) => (
+            <rect
+              key={`${row}-${column}`}
+              x={cellX(column)}
+              y={cellY(row)}
+              width={CELL_WIDTH}
+              height={CELL_HEIGHT}
+              fill={rangeColor(high > low ? (range - low) / (high - low) : 1)}
+              opacity={passes(row, column) ? 1 : 0.45}
+            >
+              <title>
+                {Math.round(toDisplay('speed', grid.xs[column], system))} {unitLabel('speed', system)},
+                {' '}{Math.round(toDisplay('temperature', grid.ys[row], system))}{unitLabel('temperature', system)}:
+                {' '}{formatDistance(range)} {distanceUnit}
+              </title>
+            </rect>
+          ))
+        )}
+        {contour.map((segment, index) => (
+          <line key={index} {...segment} stroke="hsl(var(--foreground))" strokeWidth={2} strokeLinecap="round" />
+        ))}
+        <circle cx={markerX} cy={markerY} r={6} fill="none" stroke="hsl(var(--background))" strokeWidth={4} />
+        <circle cx={markerX} cy={markerY} r={6} fill="none" stroke="hsl(var(--foreground))" strokeWidth={2} />
+        {grid.ys.map((temperature, row) => row % 2 === 0 && (
+          <text key={row} x={LEFT - 4} y={cellY(row) + CELL_HEIGHT / 2} textAnchor="end" dominantBaseline="middle" fontSize={9} fill="currentColor">
+            {Math.round(toDisplay('temperature', temperature, system))}°
+          </text>
+        ))}
+        {grid.xs.map((speed, column) => column % 2 === 0 && (
+          <text key={column} x={cellX(column) + CELL_WIDTH / 2} y={ROWS * CELL_HEIGHT + 12} textAnchor="middle" fontSize={9} fill="currentColor">
+            {Math.round(toDisplay('speed', speed, system))}
+          </text>
+        ))}
+        <text x={WIDTH} y={HEIGHT - 2} textAnchor="end" fontSize={9} fill="currentColor">
+          Speed ({unitLabel('speed', system)})
+        </text>
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDistance(low)} {distanceUnit}</span>
+        <span>Faded cells fall short of {formatDistance(threshold)} {distanceUnit}; the ring marks your current conditions.</span>
+        <span>{formatDistance(high)} {distanceUnit}</span>
+      </div>
+    </div>
+  );
+}
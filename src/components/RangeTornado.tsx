@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { NumericInput } from "@/components/FormFields";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { ModelCoefficients, RangeInputs } from "@/lib/range-engine";
+import { inputSensitivity } from "@/lib/range-analysis";
+import { INPUT_BOUNDS, INPUT_LABELS, NumericInputKey, inputUnit } from "@/lib/range-schema";
+import { fromDisplay, roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+type PerturbationMode = 'percent' | 'steps';
+
+const chartConfig = {
+  low: { label: 'Input lowered', color: 'hsl(var(--muted-foreground))' },
+  high: { label: 'Input raised', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 28;
+const DEFAULT_AMOUNT = 10;
+
+interface RangeTornadoProps {
+  inputs: RangeInputs;
+  coefficients: ModelCoefficients;
+  estimatedRange: number;
+}
+
+export function RangeTornado({ inputs, coefficients, estimatedRange }: RangeTornadoProps) {
+  const { system } = useUnitSystem();
+  const [mode, setMode] = useState<PerturbationMode>('percent');
+  const [amount, setAmount] = useState<number>(DEFAULT_AMOUNT);
+
+  const { rows, unaffected } = useMemo(() => {
+    const distance = (miles: number) => roundForDisplay(toDisplay('distance', miles, system), 0);
+    // In step mode every input moves by the same number of its own input steps, in the units the user sees.
+    // Temperatures always move in steps: a percentage of a °F or °C reading means nothing, since zero is arbitrary.
+    const delta = (key: NumericInputKey) => {
+      if (mode === 'percent' && INPUT_BOUNDS[key].quantity !== 'temperature') {
+        return (inputs[key] * (isNaN(amount) ? 0 : amount)) / 100;
+      }
+      const { step, quantity } = INPUT_BOUNDS[key];
+      const display = (isNaN(amount) ? 0 : amount) * step;
+      return quantity ? Math.abs(fromDisplay(quantity, display, system) - fromDisplay(quantity, 0, system)) : display;
+    };
+    const formatInput = (key: NumericInputKey, value: number) => {
+      const { quantity } = INPUT_BOUNDS[key];
+      const unit = inputUnit(key, system);
+      return `${roundForDisplay(quantity ? toDisplay(quantity, value, system) : value, 3)}${unit ? ` ${unit}` : ''}`;
+    };
+
+    const deltas = Object.fromEntries(
+      (Object.keys(INPUT_BOUNDS) as NumericInputKey[]).map((key) => [key, delta(key)])
+    );
+    const sensitivities = inputSensitivity(inputs, deltas, coefficients);
+    const base = distance(estimatedRange);
+    const visible = sensitivities.filter((entry) => distance(entry.lowRange) !== base || distance(entry.highRange) !== base);
+    return {
+      rows: visible.map((entry) => ({
+        name: INPUT_LABELS[entry.key],
+        low: distance(entry.lowRange) - base,
+        high: distance(entry.highRange) - base,
+        lowText: `${formatInput(entry.key, entry.low)} → ${distance(entry.lowRange)} ${unitLabel('distance', system)}`,
+        highText: `${formatInput(entry.key, entry.high)} → ${distance(entry.highRange)} ${unitLabel('distance', system)}`,
+      })),
+      unaffected: sensitivities.length - visible.length,
+    };
+  }, [inputs, coefficients, estimatedRange, mode, amount, system]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Label htmlFor="tornado-amount" className="text-sm font-medium text-foreground">Move each input by ±</Label>
+        <NumericInput
+          id="tornado-amount"
+          value={amount}
+          onChange={setAmount}
+          min={0}
+          step={1}
+          className="w-20"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          {(['percent', 'steps'] as PerturbationMode[]).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={mode === option ? "default" : "outline"}
+              onClick={() => setMode(option)}
+              className="text-sm font-medium"
+            >
+              {option === 'percent' ? '%' : 'units'}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No input changes the estimate by a whole {unitLabel('distance', system)} at this step size.</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: rows.length * ROW_HEIGHT + 60 }}>
+          <BarChart data={rows} layout="vertical" stackOffset="sign" margin={{ top: 0, right: 12, bottom: 0, left: 0 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="name" width={130} tickLine={false} axisLine={false} interval={0} />
+            <ReferenceLine x={0} stroke="hsl(var(--border))" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(_, name, item) => (
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig].label}: {item.payload[name === 'low' ? 'lowText' : 'highText']}
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="low" stackId="swing" fill="var(--color-low)" radius={2} isAnimationActive={false} />
+            <Bar dataKey="high" stackId="swing" fill="var(--color-high)" radius={2} isAnimationActive={false} />
+          </BarChart>
+        </ChartContainer>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Bars show the change in estimated range ({unitLabel('distance', system)}) when one input moves
+        {mode === 'percent'
+          ? ' by that share of its current value (temperatures by that many degrees)'
+          : ' by that many of its own input steps (degrees, speed units, kWh and so on)'},
+        {' '}with everything else held fixed. Longest bars first.
+        {unaffected > 0 && ` ${unaffected} input${unaffected === 1 ? ' has' : 's have'} no visible effect and ${unaffected === 1 ? 'is' : 'are'} not shown.`}
+      </p>
+    </div>
+  );
+}
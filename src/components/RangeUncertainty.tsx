@@ -0,0 +1,51 @@
+import { Bar, BarChart, Cell, XAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { UncertaintyResult } from "@/lib/uncertainty";
+import { cn } from "@/lib/utils";
+import { toDisplay, unitLabel } from "@/lib/units";
+
+const chartConfig = {
+  count: { label: 'Runs', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface RangeUncertaintyProps {
+  result: UncertaintyResult;
+  /** True while a newer simulation is still running. */
+  pending: boolean;
+}
+
+export function RangeUncertainty({ result, pending }: RangeUncertaintyProps) {
+  const { system } = useUnitSystem();
+  const distanceUnit = unitLabel('distance', system);
+  const format = (miles: number) => Math.round(toDisplay('distance', miles, system));
+  const { p10, median, p90 } = result.range;
+
+  const data = result.histogram.map((bin) => ({
+    label: `${format(bin.from)}–${format(bin.to)} ${distanceUnit}`,
+    count: bin.count,
+    likely: bin.to > p10 && bin.from < p90,
+  }));
+
+  return (
+    <div className={cn("mt-4 transition-opacity", pending && "opacity-60")}>
+      <div className="text-sm text-muted-foreground">
+        Likely between <span className="font-medium text-foreground">{format(p10)}</span> and
+        {' '}<span className="font-medium text-foreground">{format(p90)}</span> {distanceUnit}, median {format(median)}
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-[5/1] w-full max-w-sm mx-auto mt-2">
+        <BarChart data={data} margin={{ top: 4, right: 0, bottom: 0, left: 0 }} barCategoryGap={1}>
+          <XAxis dataKey="label" hide />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(label) => label} formatter={(value) => `${value} of ${result.runs} runs`} />}
+          />
+          <Bar dataKey="count" isAnimationActive={false} radius={[2, 2, 0, 0]}>
+            {data.map((bin, index) => (
+              <Cell key={index} fill={bin.likely ? 'var(--color-count)' : 'hsl(var(--muted-foreground) / 0.3)'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
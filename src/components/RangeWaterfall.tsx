@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, LabelList, XAxis, YAxis } from 'recharts';
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { Factors, OPTIMAL_SPEED, RangeModel, RangeResult } from "@/lib/range-engine";
+import { AttributionMethod, attributeRangeLoss } from "@/lib/range-analysis";
+import { toDisplay, unitLabel } from "@/lib/units";
+
+const chartConfig = {
+  total: { label: 'Range', color: 'hsl(var(--primary))' },
+  loss: { label: 'Lost', color: 'hsl(var(--destructive))' },
+  gain: { label: 'Gained', color: 'hsl(142 71% 45%)' },
+} satisfies ChartConfig;
+
+const STEP_LABELS: Record<keyof Factors, string> = {
+  temperature: 'Temperature',
+  speed: 'Speed',
+  climate: 'Climate',
+  terrain: 'Terrain',
+};
+
+const METHODS: { value: AttributionMethod; label: string }[] = [
+  { value: 'sequential', label: 'In sequence' },
+  { value: 'shapley', label: 'Order-independent' },
+];
+
+interface RangeWaterfallProps {
+  result: RangeResult;
+  model: RangeModel;
+}
+
+export function RangeWaterfall({ result, model }: RangeWaterfallProps) {
+  const { system } = useUnitSystem();
+  const [method, setMethod] = useState<AttributionMethod>('sequential');
+
+  // Each bar floats on an invisible offset so steps start where the previous one ended.
+  // Steps are rounded before differencing so the labels add up to the estimate.
+  const data = useMemo(() => {
+    const distance = (miles: number) => Math.round(toDisplay('distance', miles, system));
+    let level = result.baseRange;
+    const steps = attributeRangeLoss(result, method).map(({ factor, loss }) => {
+      const after = level - loss;
+      const step = {
+        name: STEP_LABELS[factor],
+        offset: distance(Math.min(level, after)),
+        change: Math.abs(distance(level) - distance(after)),
+        kind: loss >= 0 ? 'loss' : 'gain',
+        label: loss === 0 ? '0' : `${loss > 0 ? '−' : '+'}${Math.abs(distance(level) - distance(after))}`,
+      };
+      level = after;
+      return step;
+    });
+    return [
+      { name: 'Start', offset: 0, change: distance(result.baseRange), kind: 'total', label: `${distance(result.baseRange)}` },
+      ...steps,
+      { name: 'Estimate', offset: 0, change: distance(result.estimatedRange), kind: 'total', label: `${distance(result.estimatedRange)}` },
+    ];
+  }, [result, method, system]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {METHODS.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={method === option.value ? "default" : "outline"}
+            onClick={() => setMethod(option.value)}
+            className="text-sm font-medium"
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <BarChart data={data} margin={{ top: 20, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} />
+          <YAxis
+            width={40}
+            tickLine={false}
+            axisLine={false}
+            label={{ value: unitLabel('distance', system), angle: -90, position: 'insideLeft' }}
+          />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="change" stackId="waterfall" radius={2} isAnimationActive={false}>
+            {data.map((step) => (
+              <Cell key={step.name} fill={`var(--color-${step.kind})`} />
+            ))}
+            <LabelList dataKey="label" position="top" className="fill-foreground" fontSize={11} />
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        {model === 'Simple'
+          ? 'Starts from the EPA range scaled by your current charge'
+          : `Starts from the range your charge would give at a steady ${Math.round(toDisplay('speed', OPTIMAL_SPEED, system))} ${unitLabel('speed', system)} in mild weather`}
+        {method === 'sequential'
+          ? ', then applies each factor to whatever range is left after the ones before it.'
+          : ', then splits the loss so that no factor is charged more for being applied first or last.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useRef, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { toast } from "@/components/ui/sonner";
+import { AlertTriangle, CheckCircle2, MapPin, X } from 'lucide-react';
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { RangeInputs } from "@/lib/range-engine";
+import { INPUT_BOUNDS, INPUT_LABELS, NumericInputKey, displayBounds, inputUnit } from "@/lib/range-schema";
+import { RouteProfile, parseRouteFile, routeProfile, routeVerdict } from "@/lib/route-import";
+import { roundForDisplay, toDisplay, unitLabel } from "@/lib/units";
+
+/** Most points drawn in the elevation profile; longer routes are thinned evenly. */
+const MAX_CHART_POINTS = 200;
+
+const chartConfig = {
+  elevation: { label: 'Elevation', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface RouteImportProps {
+  /** Estimated range from the current charge, in miles. */
+  estimatedRange: number;
+  currentCharge: number;
+  onApply: (values: Partial<RangeInputs>) => void;
+}
+
+export function RouteImport({ estimatedRange, currentCharge, onApply }: RouteImportProps) {
+  const { system } = useUnitSystem();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [route, setRoute] = useState<RouteProfile>();
+  // Whether the route's values made it into the estimate; the verdict is only meaningful if they did.
+  const [applied, setApplied] = useState(false);
+
+  const loadFile = async (file: File) => {
+    try {
+      const profile = routeProfile(parseRouteFile(await file.text()));
+      const values: Partial<Record<NumericInputKey, number>> = {
+        routeDistance: roundForDisplay(profile.distance),
+        ...(profile.hasElevation && {
+          elevationGain: Math.round(profile.elevationGain),
+          elevationLoss: Math.round(profile.elevationLoss),
+        }),
+      };
+      const rejected = (Object.keys(values) as NumericInputKey[])
+        .filter((key) => values[key] < INPUT_BOUNDS[key].min || values[key] > INPUT_BOUNDS[key].max);
+      setRoute(profile);
+      setApplied(rejected.length === 0);
+      if (rejected.length > 0) {
+        toast.error('The route is outside what the estimator accepts', {
+          description: rejected.map((key) => {
+            const { min, max } = displayBounds(key, system);
+            return `${INPUT_LABELS[key]} must be between ${min} and ${max} ${inputUnit(key, system)}.`;
+          }).join(' '),
+        });
+        return;
+      }
+      onApply(values);
+    } catch (error) {
+      toast.error('Could not read the route', { description: (error as Error).message });
+    }
+  };
+
+  const chartData = useMemo(() => {
+    if (!route) {
+      return [];
+    }
+    const every = Math.max(1, Math.ceil(route.segments.length / MAX_CHART_POINTS));
+    return route.segments
+      .filter((_, index) => index % every === 0 || index === route.segments.length - 1)
+      .map((segment) => ({
+        distance: roundForDisplay(toDisplay('distance', segment.start + segment.length, system), 1),
+        elevation: Math.round(toDisplay('elevation', segment.elevation, system)),
+        grade: roundForDisplay(segment.grade, 1),
+      }));
+  }, [route, system]);
+
+  const distanceUnit = unitLabel('distance', system);
+  const elevationUnit = unitLabel('elevation', system);
+  const formatDistance = (miles: number) => Math.round(toDisplay('distance', Math.abs(miles), system));
+  const formatElevation = (feet: number) => Math.round(toDisplay('elevation', feet, system)).toLocaleString();
+
+  const verdict = route && applied && routeVerdict(route.distance, estimatedRange, currentCharge);
+  const grades = route?.segments.map((segment) => segment.grade) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" onClick={() => fileInput.current?.click()}>
+          <MapPin className="w-4 h-4 mr-2" />
+          {route ? 'Import another route' : 'Import GPX or KML route'}
+        </Button>
+        {route && (
+          <Button type="button" variant="ghost" size="icon" aria-label="Forget imported route" onClick={() => setRoute(undefined)}>
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              loadFile(file);
+            }
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {!route && (
+        <p className="text-sm text-muted-foreground">
+          Read the distance and climbing of a planned or recorded route from its file instead of guessing the terrain. The file stays on
+          {' '}this device.
+        </p>
+      )}
+
+      {route && (
+        <>
+          <div>
+            {route.name && <p className="text-sm font-medium text-foreground mb-2">{route.name}</p>}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="bg-muted/50 rounded-lg p-3">
+                <div className="text-lg font-bold text-foreground">{formatDistance(route.distance)} {distanceUnit}</div>
+                <div className="text-xs text-muted-foreground">Distance</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3">
+                <div className="text-lg font-bold text-foreground">{formatElevation(route.elevationGain)} {elevationUnit}</div>
+                <div className="text-xs text-muted-foreground">Climbing</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3">
+                <div className="text-lg font-bold text-foreground">{formatElevation(route.elevationLoss)} {elevationUnit}</div>
+                <div className="text-xs text-muted-foreground">Descending</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3">
+                <div className="text-lg font-bold text-foreground">
+                  {grades.length ? `${Math.max(0, ...grades).toFixed(1)}% / ${Math.min(0, ...grades).toFixed(1)}%` : '—'}
+                </div>
+                <div className="text-xs text-muted-foreground">Steepest up / down</div>
+              </div>
+            </div>
+          </div>
+
+          {route.hasElevation ? (
+            <ChartContainer config={chartConfig} className="aspect-[3/1] w-full">
+              <AreaChart data={chartData} margin={{ top: 8, right: 12, bottom: 8, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="distance"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: number) => `${Math.round(value)}`}
+                  label={{ value: distanceUnit, position: 'insideBottomRight', offset: -4 }}
+                />
+                <YAxis width={48} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `${payload?.[0]?.payload.distance} ${distanceUnit}, ${payload?.[0]?.payload.grade}% grade`}
+                      formatter={(value) => `${value} ${elevationUnit}`}
+                    />
+                  }
+                />
+                <Area
+                  dataKey="elevation"
+                  type="monotone"
+                  stroke="var(--color-elevation)"
+                  fill="var(--color-elevation)"
+                  fillOpacity={0.2}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The file has no elevations, so only its distance was used; the elevation gain and loss below are unchanged.
+            </p>
+          )}
+
+          {!verdict ? (
+            <p className="text-sm text-muted-foreground">
+              The route wasn't applied to the estimate because it is outside what the estimator accepts, so there is no verdict for it.
+            </p>
+          ) : verdict.makesIt ? (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertTitle>Makes it with {Math.round(verdict.spare)}% to spare</AlertTitle>
+              <AlertDescription>
+                About {formatDistance(verdict.margin)} {distanceUnit} of range left on arrival, starting from {currentCharge}% in these
+                {' '}conditions.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Doesn't make it: {Math.round(-verdict.spare)}% short</AlertTitle>
+              <AlertDescription>
+                The charge runs out about {formatDistance(verdict.margin)} {distanceUnit} before the end of the route. Start with more
+                {' '}charge, or plan a charging stop.
+              </AlertDescription>
+            </Alert>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
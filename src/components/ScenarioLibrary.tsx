@@ -0,0 +1,157 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { toast } from "@/components/ui/sonner";
+import { Copy, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { duplicateScenario, removeScenario, renameScenario, useScenarios } from "@/hooks/use-scenarios";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import type { RangeInputs, RangeResult } from "@/lib/range-engine";
+import { Scenario, createScenario, matchesQuery } from "@/lib/scenarios";
+import { UnitSystem, toDisplay, unitLabel } from "@/lib/units";
+
+interface ScenarioRowProps {
+  scenario: Scenario;
+  editing: boolean;
+  system: UnitSystem;
+  onEdit: (id: string | undefined) => void;
+  onLoad: (scenario: Scenario) => void;
+}
+
+// Memoised so typing in the search box or renaming one row does not re-render hundreds of others.
+const ScenarioRow = React.memo(function ScenarioRow({ scenario, editing, system, onEdit, onLoad }: ScenarioRowProps) {
+  const finishRename = (name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== scenario.name) {
+      renameScenario(scenario.id, trimmed);
+    }
+    onEdit(undefined);
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border p-3">
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <Input
+            autoFocus
+            defaultValue={scenario.name}
+            aria-label="Scenario name"
+            maxLength={80}
+            onBlur={(e) => finishRename(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') onEdit(undefined);
+            }}
+          />
+        ) : (
+          <button type="button" className="block w-full truncate text-left font-medium" onClick={() => onLoad(scenario)}>
+            {scenario.name}
+          </button>
+        )}
+        <div className="text-sm text-muted-foreground truncate">
+          {Math.round(toDisplay('distance', scenario.results.estimatedRange, system))} {unitLabel('distance', system)}
+          {scenario.vehicleName && ` · ${scenario.vehicleName}`}
+          {' · '}{new Date(scenario.updatedAt).toLocaleDateString()}
+        </div>
+      </div>
+      <Button variant="ghost" size="icon" aria-label={`Rename ${scenario.name}`} onClick={() => onEdit(scenario.id)}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" aria-label={`Duplicate ${scenario.name}`} onClick={() => duplicateScenario(scenario.id)}>
+        <Copy className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" aria-label={`Delete ${scenario.name}`} onClick={() => removeScenario(scenario.id)}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+});
+
+interface ScenarioLibraryProps {
+  inputs: RangeInputs;
+  result: RangeResult;
+  /** Saved with the scenario so the list shows which car it was for. */
+  vehicleName?: string;
+  onLoad: (inputs: RangeInputs) => void;
+}
+
+export function ScenarioLibrary({ inputs, result, vehicleName, onLoad }: ScenarioLibraryProps) {
+  const { scenarios, addScenario } = useScenarios();
+  const { system } = useUnitSystem();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+
+  const visible = useMemo(() => scenarios.filter((scenario) => matchesQuery(scenario, query)), [scenarios, query]);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+    addScenario(createScenario(name, inputs, result, vehicleName));
+    toast.success(`Saved scenario ${name.trim()}`);
+    setName('');
+  };
+
+  const load = useCallback((scenario: Scenario) => {
+    onLoad(scenario.inputs);
+    setOpen(false);
+    toast.success(`Loaded ${scenario.name}`);
+  }, [onLoad]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="text-sm">
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Scenarios
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Scenarios</SheetTitle>
+          <SheetDescription>Save the current inputs and results under a name, then load them again whenever you like.</SheetDescription>
+        </SheetHeader>
+        <form onSubmit={save} className="flex gap-2 mt-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Winter commute"
+            aria-label="New scenario name"
+            maxLength={80}
+          />
+          <Button type="submit" disabled={!name.trim()}>Save</Button>
+        </form>
+        {scenarios.length > 0 && (
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={`Search ${scenarios.length} scenario${scenarios.length === 1 ? '' : 's'}…`}
+            aria-label="Search scenarios"
+          />
+        )}
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          <div className="space-y-2 pb-4">
+            {scenarios.length === 0 && <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>}
+            {scenarios.length > 0 && visible.length === 0 && (
+              <p className="text-sm text-muted-foreground">No scenario matches “{query.trim()}”.</p>
+            )}
+            {visible.map((scenario) => (
+              <ScenarioRow
+                key={scenario.id}
+                scenario={scenario}
+                editing={scenario.id === editingId}
+                system={system}
+                onEdit={setEditingId}
+                onLoad={load}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
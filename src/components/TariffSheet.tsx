@@ -0,0 +1,173 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Plus, Trash2 } from 'lucide-react';
+import { NumericInput } from "@/components/FormFields";
+import { useGarage } from "@/hooks/use-garage";
+import { TARIFF_KINDS, Tariff, TariffKind, TouWindow, createTariff, formatTimeOfDay, parseTimeOfDay, tariffSchema } from "@/lib/tariffs";
+
+function TariffEditor({ tariff }: { tariff: Tariff }) {
+  const { replaceTariff, removeTariff } = useGarage();
+  const parsed = tariffSchema.safeParse(tariff);
+  const issue = parsed.success ? undefined : parsed.error.issues[0];
+
+  const setWindow = (index: number, changes: Partial<TouWindow>) => {
+    if (tariff.kind === 'tou') {
+      replaceTariff({ ...tariff, windows: tariff.windows.map((window, i) => (i === index ? { ...window, ...changes } : window)) });
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          value={tariff.name}
+          onChange={(e) => replaceTariff({ ...tariff, name: e.target.value })}
+          aria-label="Tariff name"
+          maxLength={60}
+        />
+        <Button variant="ghost" size="icon" aria-label={`Delete ${tariff.name}`} onClick={() => removeTariff(tariff.id)}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(TARIFF_KINDS) as TariffKind[]).map((kind) => (
+          <Button
+            key={kind}
+            type="button"
+            size="sm"
+            variant={tariff.kind === kind ? "default" : "outline"}
+            onClick={() => tariff.kind !== kind && replaceTariff(createTariff(kind, tariff.name, tariff.id))}
+            className="text-xs font-medium px-2"
+          >
+            {TARIFF_KINDS[kind]}
+          </Button>
+        ))}
+      </div>
+
+      {tariff.kind === 'dcfc' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['kWh', 'minute'] as const).map((per) => (
+            <Button
+              key={per}
+              type="button"
+              size="sm"
+              variant={tariff.per === per ? "default" : "outline"}
+              onClick={() => replaceTariff({ ...tariff, per })}
+              className="text-sm font-medium"
+            >
+              Per {per}
+            </Button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`tariff-rate-${tariff.id}`} className="text-sm font-medium text-foreground">
+            {tariff.kind === 'tou' ? 'Other times' : 'Price'} ($/{tariff.kind === 'dcfc' ? tariff.per : 'kWh'})
+          </Label>
+          <NumericInput
+            id={`tariff-rate-${tariff.id}`}
+            value={tariff.rate}
+            onChange={(rate) => replaceTariff({ ...tariff, rate })}
+            min={0}
+            step={0.01}
+          />
+        </div>
+        {tariff.kind === 'dcfc' && (
+          <div className="space-y-2">
+            <Label htmlFor={`tariff-fee-${tariff.id}`} className="text-sm font-medium text-foreground">Session fee ($)</Label>
+            <NumericInput
+              id={`tariff-fee-${tariff.id}`}
+              value={tariff.sessionFee}
+              onChange={(sessionFee) => replaceTariff({ ...tariff, sessionFee })}
+              min={0}
+              step={0.5}
+            />
+          </div>
+        )}
+      </div>
+
+      {tariff.kind === 'tou' && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Windows ($/kWh)</Label>
+          {tariff.windows.map((window, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <Input
+                type="time"
+                value={formatTimeOfDay(window.start)}
+                onChange={(e) => setWindow(index, { start: parseTimeOfDay(e.target.value) })}
+                aria-label={`Window ${index + 1} start`}
+              />
+              <Input
+                type="time"
+                value={formatTimeOfDay(window.end)}
+                onChange={(e) => setWindow(index, { end: parseTimeOfDay(e.target.value) })}
+                aria-label={`Window ${index + 1} end`}
+              />
+              <NumericInput
+                value={window.rate}
+                onChange={(rate) => setWindow(index, { rate })}
+                min={0}
+                step={0.01}
+                aria-label={`Window ${index + 1} price`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete window ${index + 1}`}
+                onClick={() => replaceTariff({ ...tariff, windows: tariff.windows.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => replaceTariff({ ...tariff, windows: [...tariff.windows, { start: 16 * 60, end: 21 * 60, rate: tariff.rate }] })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add window
+          </Button>
+          <p className="text-xs text-muted-foreground">A window that ends before it starts runs past midnight. Where windows overlap, the first one listed applies.</p>
+        </div>
+      )}
+
+      {issue && <p className="text-sm text-destructive">{issue.message}</p>}
+    </div>
+  );
+}
+
+interface TariffSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TariffSheet({ open, onOpenChange }: TariffSheetProps) {
+  const { tariffs, addTariff } = useGarage();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Tariffs</SheetTitle>
+          <SheetDescription>
+            What you pay for electricity at home and on the road. Tariffs are saved with your garage and included in its export.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="space-y-4 my-6">
+          {tariffs.length === 0 && <p className="text-sm text-muted-foreground">No tariffs yet.</p>}
+          {tariffs.map((tariff) => (
+            <TariffEditor key={tariff.id} tariff={tariff} />
+          ))}
+        </div>
+        <Button variant="outline" onClick={() => addTariff(createTariff('flat', `Tariff ${tariffs.length + 1}`))}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add tariff
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
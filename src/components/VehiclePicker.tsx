@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { cn } from "@/lib/utils";
+import { toDisplay, unitLabel } from "@/lib/units";
+import {
+  VEHICLE_CATALOG,
+  VEHICLE_CATALOG_VERSION,
+  CatalogVehicle,
+  catalogEpaRange,
+  catalogVehicleName,
+} from "@/data/vehicle-catalog";
+
+interface VehiclePickerProps {
+  selectedId?: string;
+  onSelect: (vehicle: CatalogVehicle) => void;
+}
+
+const MAKES = Array.from(new Set(VEHICLE_CATALOG.map((vehicle) => vehicle.make))).sort();
+
+export function VehiclePicker({ selectedId, onSelect }: VehiclePickerProps) {
+  const [open, setOpen] = useState(false);
+  const { system } = useUnitSystem();
+  const selected = VEHICLE_CATALOG.find((vehicle) => vehicle.id === selectedId);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between text-base font-normal"
+        >
+          <span className="truncate">{selected ? catalogVehicleName(selected) : 'Choose a vehicle…'}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search make, model, trim or year…" />
+          <CommandList>
+            <CommandEmpty>No vehicle found.</CommandEmpty>
+            {MAKES.map((make) => (
+              <CommandGroup key={make} heading={make}>
+                {VEHICLE_CATALOG.filter((vehicle) => vehicle.make === make).map((vehicle) => (
+                  <CommandItem
+                    key={vehicle.id}
+                    value={vehicle.id}
+                    keywords={[vehicle.make, vehicle.model, vehicle.trim, String(vehicle.year)]}
+                    onSelect={() => {
+                      onSelect(vehicle);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", vehicle.id === selectedId ? "opacity-100" : "opacity-0")} />
+                    <div className="flex-1">
+                      <div>{vehicle.year} {vehicle.model} {vehicle.trim}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {vehicle.usableCapacity} kWh usable · EPA {Math.round(toDisplay('distance', catalogEpaRange(vehicle), system))} {unitLabel('distance', system)}
+                        {vehicle.epaRange === undefined && ' (est. from WLTP)'}
+                        {vehicle.heatPump && ' · heat pump'}
+                      </div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+        <p className="border-t px-3 py-2 text-xs text-muted-foreground">Catalog version {VEHICLE_CATALOG_VERSION}</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
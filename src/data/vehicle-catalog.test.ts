@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { VEHICLE_CATALOG, catalogInputs, catalogVehicleName } from '@/data/vehicle-catalog';
+import { DEFAULT_INPUTS } from '@/lib/range-engine';
+import { rangeInputsSchema } from '@/lib/range-schema';
+
+describe('VEHICLE_CATALOG', () => {
+  it.each(VEHICLE_CATALOG.map((vehicle) => [catalogVehicleName(vehicle), vehicle] as const))('%s passes input validation', (_, vehicle) => {
+    const result = rangeInputsSchema.safeParse({ ...DEFAULT_INPUTS, ...catalogInputs(vehicle) });
+    expect(result.success ? [] : result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { RangeInputs } from '@/lib/range-engine';
+import { KM_PER_MILE } from '@/lib/units';
+
+/**
+ * Bundled vehicle specifications. Bump the version whenever entries are
+ * added or corrected so saved references can tell which data they came from.
+ * Figures are manufacturer and EPA/WLTP published values, rounded.
+ */
+export const VEHICLE_CATALOG_VERSION = '2024.1';
+
+export interface CatalogVehicle {
+  /** Stable identifier; never reuse one for a different vehicle. */
+  id: string;
+  make: string;
+  model: string;
+  trim: string;
+  year: number;
+  /** Energy the car lets you use, in kWh. This is what the estimator treats as battery capacity. */
+  usableCapacity: number;
+  /** Total pack energy including the buffer, in kWh. */
+  grossCapacity: number;
+  /** EPA combined range in miles; missing for cars not sold in the US. */
+  epaRange?: number;
+  /** WLTP combined range in km, as published; missing for cars not sold in Europe. */
+  wltpRange?: number;
+  dragCoefficient: number;
+  /** Curb weight, in kg. */
+  mass: number;
+  heatPump: boolean;
+}
+
+export const VEHICLE_CATALOG: CatalogVehicle[] = [
+  { id: 'tesla-model-3-rwd-2023', make: 'Tesla', model: 'Model 3', trim: 'RWD', year: 2023, usableCapacity: 57.5, grossCapacity: 60, epaRange: 272, wltpRange: 491, dragCoefficient: 0.23, mass: 1765, heatPump: true },
+  { id: 'tesla-model-3-lr-2023', make: 'Tesla', model: 'Model 3', trim: 'Long Range AWD', year: 2023, usableCapacity: 75, grossCapacity: 82, epaRange: 333, wltpRange: 629, dragCoefficient: 0.23, mass: 1844, heatPump: true },
+  { id: 'tesla-model-y-lr-2023', make: 'Tesla', model: 'Model Y', trim: 'Long Range AWD', year: 2023, usableCapacity: 75, grossCapacity: 81, epaRange: 330, wltpRange: 533, dragCoefficient: 0.23, mass: 1979, heatPump: true },
+  { id: 'tesla-model-s-2023', make: 'Tesla', model: 'Model S', trim: 'Dual Motor AWD', year: 2023, usableCapacity: 95, grossCapacity: 100, epaRange: 405, wltpRange: 634, dragCoefficient: 0.208, mass: 2069, heatPump: true },
+  { id: 'chevrolet-bolt-ev-2023', make: 'Chevrolet', model: 'Bolt EV', trim: '1LT', year: 2023, usableCapacity: 65, grossCapacity: 66, epaRange: 259, dragCoefficient: 0.308, mass: 1669, heatPump: false },
+  { id: 'ford-mach-e-er-rwd-2023', make: 'Ford', model: 'Mustang Mach-E', trim: 'Premium Extended Range RWD', year: 2023, usableCapacity: 91, grossCapacity: 98.8, epaRange: 310, wltpRange: 600, dragCoefficient: 0.3, mass: 2140, heatPump: false },
+  { id: 'ford-f150-lightning-er-2023', make: 'Ford', model: 'F-150 Lightning', trim: 'Lariat Extended Range', year: 2023, usableCapacity: 131, grossCapacity: 143, epaRange: 320, dragCoefficient: 0.44, mass: 2948, heatPump: false },
+  { id: 'hyundai-ioniq-5-lr-rwd-2023', make: 'Hyundai', model: 'Ioniq 5', trim: 'Long Range RWD', year: 2023, usableCapacity: 74, grossCapacity: 77.4, epaRange: 303, wltpRange: 507, dragCoefficient: 0.288, mass: 1910, heatPump: true },
+  { id: 'hyundai-kona-electric-2023', make: 'Hyundai', model: 'Kona Electric', trim: 'SEL', year: 2023, usableCapacity: 64, grossCapacity: 64, epaRange: 258, wltpRange: 484, dragCoefficient: 0.29, mass: 1685, heatPump: true },
+  { id: 'kia-ev6-lr-rwd-2023', make: 'Kia', model: 'EV6', trim: 'Wind Long Range RWD', year: 2023, usableCapacity: 74, grossCapacity: 77.4, epaRange: 310, wltpRange: 528, dragCoefficient: 0.28, mass: 1910, heatPump: true },
+  { id: 'kia-niro-ev-2023', make: 'Kia', model: 'Niro EV', trim: 'Wind', year: 2023, usableCapacity: 64.8, grossCapacity: 67.5, epaRange: 253, wltpRange: 463, dragCoefficient: 0.29, mass: 1737, heatPump: true },
+  { id: 'nissan-leaf-sv-plus-2023', make: 'Nissan', model: 'Leaf', trim: 'SV Plus', year: 2023, usableCapacity: 60, grossCapacity: 62, epaRange: 212, wltpRange: 385, dragCoefficient: 0.28, mass: 1748, heatPump: true },
+  { id: 'volkswagen-id4-pro-2023', make: 'Volkswagen', model: 'ID.4', trim: 'Pro', year: 2023, usableCapacity: 77, grossCapacity: 82, epaRange: 275, wltpRange: 522, dragCoefficient: 0.28, mass: 2124, heatPump: false },
+  { id: 'volkswagen-id3-pro-s-2023', make: 'Volkswagen', model: 'ID.3', trim: 'Pro S', year: 2023, usableCapacity: 77, grossCapacity: 82, wltpRange: 559, dragCoefficient: 0.267, mass: 1934, heatPump: true },
+  { id: 'renault-megane-etech-ev60-2023', make: 'Renault', model: 'Megane E-Tech', trim: 'EV60', year: 2023, usableCapacity: 60, grossCapacity: 60, wltpRange: 470, dragCoefficient: 0.29, mass: 1636, heatPump: true },
+  { id: 'bmw-i4-edrive40-2023', make: 'BMW', model: 'i4', trim: 'eDrive40', year: 2023, usableCapacity: 81, grossCapacity: 83.9, epaRange: 301, wltpRange: 590, dragCoefficient: 0.24, mass: 2125, heatPump: true },
+  { id: 'polestar-2-lr-single-2023', make: 'Polestar', model: 'Polestar 2', trim: 'Long Range Single Motor', year: 2023, usableCapacity: 75, grossCapacity: 78, epaRange: 270, wltpRange: 551, dragCoefficient: 0.278, mass: 2040, heatPump: true },
+  { id: 'mercedes-eqs-450-plus-2023', make: 'Mercedes-Benz', model: 'EQS', trim: '450+', year: 2023, usableCapacity: 108, grossCapacity: 120, epaRange: 350, wltpRange: 782, dragCoefficient: 0.2, mass: 2480, heatPump: true },
+  { id: 'lucid-air-grand-touring-2023', make: 'Lucid', model: 'Air', trim: 'Grand Touring', year: 2023, usableCapacity: 112, grossCapacity: 118, epaRange: 516, wltpRange: 830, dragCoefficient: 0.197, mass: 2360, heatPump: true },
+  { id: 'rivian-r1t-large-2023', make: 'Rivian', model: 'R1T', trim: 'Dual Motor Large Pack', year: 2023, usableCapacity: 128.9, grossCapacity: 135, epaRange: 328, dragCoefficient: 0.3, mass: 3149, heatPump: false },
+];
+
+/** WLTP overstates real-world range; EPA figures typically come out about 15% lower. */
+const WLTP_TO_EPA = 0.85;
+/** Catalog masses are curb weights; the estimator also carries a driver. */
+const OCCUPANT_MASS = 80;
+
+/** EPA range for the vehicle, estimated from WLTP when no EPA figure was published. */
+export function catalogEpaRange(vehicle: CatalogVehicle): number {
+  if (vehicle.epaRange !== undefined) {
+    return vehicle.epaRange;
+  }
+  return Math.round(((vehicle.wltpRange ?? 0) / KM_PER_MILE) * WLTP_TO_EPA);
+}
+
+export function catalogVehicleName(vehicle: CatalogVehicle): string {
+  return `${vehicle.year} ${vehicle.make} ${vehicle.model} ${vehicle.trim}`;
+}
+
+/** Estimator inputs the catalog entry determines; everything else keeps its current value. */
+export function catalogInputs(vehicle: CatalogVehicle): Pick<RangeInputs, 'batteryCapacity' | 'epaRange' | 'mass' | 'dragCoefficient' | 'heaterType'> {
+  return {
+    batteryCapacity: vehicle.usableCapacity,
+    epaRange: catalogEpaRange(vehicle),
+    mass: vehicle.mass + OCCUPANT_MASS,
+    dragCoefficient: vehicle.dragCoefficient,
+    heaterType: vehicle.heatPump ? 'Heat Pump' : 'Resistive',
+  };
+}
@@ -0,0 +1,55 @@
+import * as React from "react"
+
+import type { LoggedDrive } from "@/lib/drive-log"
+import { readStorage, writeStorage } from "@/lib/storage"
+
+const STORAGE_KEY = "drives"
+
+interface DriveLogState {
+  /** Newest drive first. */
+  drives: LoggedDrive[]
+}
+
+const listeners: Array<(state: DriveLogState) => void> = []
+
+let memoryState: DriveLogState = readStorage<DriveLogState>(STORAGE_KEY, { drives: [] })
+
+function dispatch(state: DriveLogState) {
+  memoryState = state
+  writeStorage(STORAGE_KEY, state)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+const byDateDescending = (a: LoggedDrive, b: LoggedDrive) => b.date.localeCompare(a.date)
+
+function addDrive(drive: LoggedDrive) {
+  dispatch({ drives: [drive, ...memoryState.drives].sort(byDateDescending) })
+}
+
+function addDrives(drives: LoggedDrive[]) {
+  dispatch({ drives: [...drives, ...memoryState.drives].sort(byDateDescending) })
+}
+
+function removeDrive(id: string) {
+  dispatch({ drives: memoryState.drives.filter((drive) => drive.id !== id) })
+}
+
+function useDriveLog() {
+  const [state, setState] = React.useState<DriveLogState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return { ...state, addDrive, addDrives, removeDrive }
+}
+
+export { useDriveLog }
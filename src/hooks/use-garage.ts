@@ -0,0 +1,101 @@
+import * as React from "react"
+
+import type { GarageFile, GarageVehicle } from "@/lib/garage"
+import { mergeGarage } from "@/lib/garage"
+import { readStorage, writeStorage } from "@/lib/storage"
+import type { Tariff } from "@/lib/tariffs"
+
+const STORAGE_KEY = "garage"
+
+interface GarageState {
+  vehicles: GarageVehicle[]
+  tariffs: Tariff[]
+  /** Vehicle the estimator is currently using; undefined for unsaved inputs. */
+  activeId?: string
+}
+
+const listeners: Array<(state: GarageState) => void> = []
+
+// Garages saved before tariffs existed have none.
+let memoryState: GarageState = { tariffs: [], ...readStorage<GarageState>(STORAGE_KEY, { vehicles: [], tariffs: [] }) }
+
+function dispatch(state: GarageState) {
+  memoryState = state
+  writeStorage(STORAGE_KEY, state)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function addVehicle(vehicle: GarageVehicle) {
+  dispatch({ ...memoryState, vehicles: [...memoryState.vehicles, vehicle], activeId: vehicle.id })
+}
+
+function updateVehicle(id: string, changes: Partial<Omit<GarageVehicle, "id">>) {
+  dispatch({
+    ...memoryState,
+    vehicles: memoryState.vehicles.map((vehicle) => (vehicle.id === id ? { ...vehicle, ...changes } : vehicle)),
+  })
+}
+
+function removeVehicle(id: string) {
+  dispatch({
+    ...memoryState,
+    vehicles: memoryState.vehicles.filter((vehicle) => vehicle.id !== id),
+    activeId: memoryState.activeId === id ? undefined : memoryState.activeId,
+  })
+}
+
+function setActiveVehicle(id: string | undefined) {
+  dispatch({ ...memoryState, activeId: id })
+}
+
+function importGarage({ vehicles, tariffs }: GarageFile) {
+  dispatch({
+    ...memoryState,
+    vehicles: mergeGarage(memoryState.vehicles, vehicles),
+    tariffs: mergeGarage(memoryState.tariffs, tariffs),
+  })
+}
+
+function addTariff(tariff: Tariff) {
+  dispatch({ ...memoryState, tariffs: [...memoryState.tariffs, tariff] })
+}
+
+/** Replaces a tariff outright, since switching its kind changes which fields it has. */
+function replaceTariff(tariff: Tariff) {
+  dispatch({ ...memoryState, tariffs: memoryState.tariffs.map((existing) => (existing.id === tariff.id ? tariff : existing)) })
+}
+
+function removeTariff(id: string) {
+  dispatch({ ...memoryState, tariffs: memoryState.tariffs.filter((tariff) => tariff.id !== id) })
+}
+
+function useGarage() {
+  const [state, setState] = React.useState<GarageState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    activeVehicle: state.vehicles.find((vehicle) => vehicle.id === state.activeId),
+    addVehicle,
+    updateVehicle,
+    removeVehicle,
+    setActiveVehicle,
+    importGarage,
+    addTariff,
+    replaceTariff,
+    removeTariff,
+  }
+}
+
+export { useGarage }
@@ -0,0 +1,63 @@
+import * as React from "react"
+
+import type { ModelCoefficients, RangeInputs } from "@/lib/range-engine"
+import type { UncertaintyResult } from "@/lib/uncertainty"
+import { simulateRange } from "@/lib/uncertainty"
+import type { UncertaintyRequest, UncertaintyResponse } from "@/lib/uncertainty.worker"
+
+/**
+ * Runs the Monte Carlo simulation in a Web Worker so typing stays responsive.
+ * While a run is in flight the previous result is kept and `pending` is true.
+ * If the worker fails to load or a message can't be read, it is dropped and
+ * this and every later run happen on the main thread instead.
+ */
+function useRangeUncertainty(inputs: RangeInputs, coefficients: ModelCoefficients) {
+  const [result, setResult] = React.useState<UncertaintyResult>()
+  const [pending, setPending] = React.useState(false)
+  const worker = React.useRef<Worker | null>(null)
+  const latestId = React.useRef(0)
+  const latestRequest = React.useRef({ inputs, coefficients })
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") {
+      return
+    }
+    const instance = new Worker(new URL("../lib/uncertainty.worker.ts", import.meta.url), { type: "module" })
+    instance.onmessage = (event: MessageEvent<UncertaintyResponse>) => {
+      if (event.data.id === latestId.current) {
+        setResult(event.data.result)
+        setPending(false)
+      }
+    }
+    const fallBack = () => {
+      instance.terminate()
+      worker.current = null
+      setResult(simulateRange(latestRequest.current.inputs, latestRequest.current.coefficients))
+      setPending(false)
+    }
+    instance.onerror = fallBack
+    instance.onmessageerror = fallBack
+    worker.current = instance
+    return () => {
+      instance.terminate()
+      worker.current = null
+    }
+  }, [])
+
+  React.useEffect(() => {
+    latestId.current += 1
+    latestRequest.current = { inputs, coefficients }
+    if (!worker.current) {
+      // Without worker support the simulation still runs, just on this thread.
+      setResult(simulateRange(inputs, coefficients))
+      return
+    }
+    const request: UncertaintyRequest = { id: latestId.current, inputs, coefficients }
+    setPending(true)
+    worker.current.postMessage(request)
+  }, [inputs, coefficients])
+
+  return { result, pending }
+}
+
+export { useRangeUncertainty }
@@ -0,0 +1,59 @@
+import * as React from "react"
+
+import type { Scenario } from "@/lib/scenarios"
+import { copyScenario } from "@/lib/scenarios"
+import { readStorage, writeStorage } from "@/lib/storage"
+
+const STORAGE_KEY = "scenarios"
+
+const listeners: Array<(scenarios: Scenario[]) => void> = []
+
+// Newest first, which is also the order the library lists them in.
+let memoryState: Scenario[] = readStorage<Scenario[]>(STORAGE_KEY, [])
+
+function dispatch(scenarios: Scenario[]) {
+  memoryState = scenarios
+  writeStorage(STORAGE_KEY, scenarios)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function addScenario(scenario: Scenario) {
+  dispatch([scenario, ...memoryState])
+}
+
+function renameScenario(id: string, name: string) {
+  dispatch(
+    memoryState.map((scenario) => (scenario.id === id ? { ...scenario, name, updatedAt: Date.now() } : scenario))
+  )
+}
+
+function duplicateScenario(id: string) {
+  const original = memoryState.find((scenario) => scenario.id === id)
+  if (original) {
+    dispatch([copyScenario(original, memoryState), ...memoryState])
+  }
+}
+
+function removeScenario(id: string) {
+  dispatch(memoryState.filter((scenario) => scenario.id !== id))
+}
+
+function useScenarios() {
+  const [scenarios, setScenarios] = React.useState<Scenario[]>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setScenarios)
+    return () => {
+      const index = listeners.indexOf(setScenarios)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return { scenarios, addScenario }
+}
+
+export { useScenarios, renameScenario, duplicateScenario, removeScenario }
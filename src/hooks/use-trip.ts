@@ -0,0 +1,121 @@
+import * as React from "react"
+
+import type { TripCharger } from "@/lib/charge-planner"
+import { DEFAULT_TRIP_CHARGERS, createTripCharger } from "@/lib/charge-planner"
+import type { ChargeCurve } from "@/lib/charging"
+import type { RangeModel } from "@/lib/range-engine"
+import { readStorage, writeStorage } from "@/lib/storage"
+import type { TripLeg } from "@/lib/trip"
+import { DEFAULT_TRIP_LEGS, createTripLeg } from "@/lib/trip"
+
+const STORAGE_KEY = "trip"
+
+interface TripState {
+  legs: TripLeg[]
+  /** Charge when setting off, in %. */
+  startCharge: number
+  /** Charge that should never be dipped into, in %; also the least to arrive at a charger with. */
+  reserve: number
+  /** Candidate charging stops along the route. */
+  chargers: TripCharger[]
+  /** Charge curve for the estimator's vehicle; garage vehicles keep their own. */
+  chargeCurve?: ChargeCurve
+  /** Garage vehicle to plan with; undefined uses the estimator's vehicle. */
+  vehicleId?: string
+  /** The physics model is the default because legs usually differ most in speed and climbing. */
+  model: RangeModel
+}
+
+const listeners: Array<(state: TripState) => void> = []
+
+const DEFAULT_STATE: TripState = {
+  legs: DEFAULT_TRIP_LEGS.map(({ name, ...values }) => createTripLeg(name, values)),
+  startCharge: 90,
+  reserve: 10,
+  chargers: DEFAULT_TRIP_CHARGERS.map(({ name, ...values }) => createTripCharger(name, values)),
+  model: "Physics",
+}
+
+// Spread over the defaults so trips saved before a field existed still load.
+let memoryState: TripState = { ...DEFAULT_STATE, ...readStorage<Partial<TripState>>(STORAGE_KEY, {}) }
+
+function dispatch(state: TripState) {
+  memoryState = state
+  writeStorage(STORAGE_KEY, state)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function updateTrip(changes: Partial<Omit<TripState, "legs" | "chargers">>) {
+  dispatch({ ...memoryState, ...changes })
+}
+
+function addLeg(leg: TripLeg) {
+  dispatch({ ...memoryState, legs: [...memoryState.legs, leg] })
+}
+
+function updateLeg(id: string, changes: Partial<Omit<TripLeg, "id">>) {
+  dispatch({
+    ...memoryState,
+    legs: memoryState.legs.map((leg) => (leg.id === id ? { ...leg, ...changes } : leg)),
+  })
+}
+
+function removeLeg(id: string) {
+  dispatch({ ...memoryState, legs: memoryState.legs.filter((leg) => leg.id !== id) })
+}
+
+function moveLeg(id: string, offset: -1 | 1) {
+  const legs = [...memoryState.legs]
+  const index = legs.findIndex((leg) => leg.id === id)
+  const target = index + offset
+  if (index < 0 || target < 0 || target >= legs.length) {
+    return
+  }
+  ;[legs[index], legs[target]] = [legs[target], legs[index]]
+  dispatch({ ...memoryState, legs })
+}
+
+function addCharger(charger: TripCharger) {
+  dispatch({ ...memoryState, chargers: [...memoryState.chargers, charger] })
+}
+
+function updateCharger(id: string, changes: Partial<Omit<TripCharger, "id">>) {
+  dispatch({
+    ...memoryState,
+    chargers: memoryState.chargers.map((charger) => (charger.id === id ? { ...charger, ...changes } : charger)),
+  })
+}
+
+function removeCharger(id: string) {
+  dispatch({ ...memoryState, chargers: memoryState.chargers.filter((charger) => charger.id !== id) })
+}
+
+function useTrip() {
+  const [state, setState] = React.useState<TripState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    updateTrip,
+    addLeg,
+    updateLeg,
+    removeLeg,
+    moveLeg,
+    addCharger,
+    updateCharger,
+    removeCharger,
+  }
+}
+
+export { useTrip }
@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { readStorage, writeStorage } from "@/lib/storage"
+import type { UnitSystem } from "@/lib/units"
+
+const STORAGE_KEY = "unit-system"
+
+const listeners: Array<(system: UnitSystem) => void> = []
+
+let memoryState: UnitSystem = readStorage<UnitSystem>(STORAGE_KEY, "imperial")
+
+function setUnitSystem(system: UnitSystem) {
+  memoryState = system
+  writeStorage(STORAGE_KEY, system)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function useUnitSystem() {
+  const [system, setSystem] = React.useState<UnitSystem>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setSystem)
+    return () => {
+      const index = listeners.indexOf(setSystem)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return { system, setUnitSystem }
+}
+
+export { useUnitSystem, setUnitSystem }
@@ -0,0 +1,128 @@
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeModel } from '@/lib/range-engine';
+import { COEFFICIENT_BOUNDS } from '@/lib/range-schema';
+import { LoggedDrive, PredictionError, predictedChargeUsed, summarizeErrors } from '@/lib/drive-log';
+
+/** Coefficients each model actually uses; the rest have no effect on its estimate and are left alone. */
+export const CALIBRATED_COEFFICIENTS: Record<RangeModel, (keyof ModelCoefficients)[]> = {
+  Simple: ['rangeScale', 'temperature', 'speed', 'cabinHeatTransfer'],
+  Physics: ['rangeScale', 'cabinHeatTransfer'],
+};
+
+/** One more drive than coefficients, so a fit can't simply pass through every point. */
+export function minimumDrives(model: RangeModel): number {
+  return CALIBRATED_COEFFICIENTS[model].length + 1;
+}
+
+function residuals(drives: LoggedDrive[], model: RangeModel, coefficients: ModelCoefficients): number[] {
+  return drives.map((drive) => predictedChargeUsed({ ...drive.inputs, model }, coefficients) - drive.chargeUsed);
+}
+
+/** How far the estimator's charge used is from what the drives actually used. */
+export function predictionError(drives: LoggedDrive[], model: RangeModel, coefficients: ModelCoefficients): PredictionError {
+  return summarizeErrors(residuals(drives, model, coefficients));
+}
+
+/** Solves the small dense system `a x = b` by Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const ratio = m[row][col] / (m[col][col] || 1e-12);
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= ratio * m[col][k];
+      }
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    const sum = m[row].slice(row + 1, n).reduce((total, value, k) => total + value * x[row + 1 + k], 0);
+    x[row] = (m[row][n] - sum) / (m[row][row] || 1e-12);
+  }
+  return x;
+}
+
+const MAX_ITERATIONS = 60;
+const STEP = 1e-4;
+
+export interface CalibrationResult {
+  coefficients: ModelCoefficients;
+  before: PredictionError;
+  after: PredictionError;
+}
+
+/**
+ * Fits the coefficients `model` uses to the drives by least squares on charge
+ * used, starting from `start` and staying within `COEFFICIENT_BOUNDS`. The
+ * model is non-linear in its coefficients, so this is Levenberg-Marquardt with
+ * a finite-difference Jacobian. Coefficients are fitted as multiples of their
+ * defaults so they share a scale.
+ */
+export function calibrateCoefficients(
+  drives: LoggedDrive[],
+  model: RangeModel,
+  start: ModelCoefficients,
+): CalibrationResult {
+  const keys = CALIBRATED_COEFFICIENTS[model];
+  const toCoefficients = (scales: number[]): ModelCoefficients => ({
+    ...start,
+    ...Object.fromEntries(keys.map((key, i) => {
+      const { min, max } = COEFFICIENT_BOUNDS[key];
+      return [key, Math.min(max, Math.max(min, scales[i] * DEFAULT_COEFFICIENTS[key]))];
+    })),
+  });
+  const sumOfSquares = (errors: number[]) => errors.reduce((total, error) => total + error * error, 0);
+
+  let scales = keys.map((key) => start[key] / DEFAULT_COEFFICIENTS[key]);
+  let errors = residuals(drives, model, toCoefficients(scales));
+  let cost = sumOfSquares(errors);
+  let damping = 1e-2;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const jacobian = keys.map((_, i) => {
+      const nudged = scales.map((scale, k) => (k === i ? scale + STEP : scale));
+      return residuals(drives, model, toCoefficients(nudged)).map((error, j) => (error - errors[j]) / STEP);
+    });
+    const normal = keys.map((_, i) => keys.map((_, k) => jacobian[i].reduce((total, value, j) => total + value * jacobian[k][j], 0)));
+    const gradient = keys.map((_, i) => jacobian[i].reduce((total, value, j) => total + value * errors[j], 0));
+
+    let improved = false;
+    while (damping < 1e8) {
+      const damped = normal.map((row, i) => row.map((value, k) => (i === k ? value * (1 + damping) + 1e-9 : value)));
+      const delta = solve(damped, gradient.map((value) => -value));
+      // Clamp to the bounds here too, so a step past a bound doesn't leave the scale drifting beyond it.
+      const next = scales.map((scale, i) => {
+        const { min, max } = COEFFICIENT_BOUNDS[keys[i]];
+        const typical = DEFAULT_COEFFICIENTS[keys[i]];
+        return Math.min(max / typical, Math.max(min / typical, scale + delta[i]));
+      });
+      const nextErrors = residuals(drives, model, toCoefficients(next));
+      const nextCost = sumOfSquares(nextErrors);
+      if (nextCost < cost) {
+        improved = cost - nextCost > 1e-9 * Math.max(1, cost);
+        scales = next;
+        errors = nextErrors;
+        cost = nextCost;
+        damping = Math.max(1e-6, damping / 3);
+        break;
+      }
+      damping *= 4;
+    }
+    if (!improved) {
+      break;
+    }
+  }
+
+  return {
+    coefficients: toCoefficients(scales),
+    before: predictionError(drives, model, start),
+    after: summarizeErrors(errors),
+  };
+}
@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { ChargeCurve, chargeSession } from '@/lib/charging';
+import { createId } from '@/lib/storage';
+import type { TripPlan } from '@/lib/trip';
+
+/** A charger somewhere along the route. */
+export interface TripCharger {
+  id: string;
+  name: string;
+  /** Distance from the start of the trip, in miles. */
+  position: number;
+  /** Highest power the charger delivers, in kW. */
+  maxKw: number;
+}
+
+export type TripChargerField = Exclude<keyof TripCharger, 'id' | 'name'>;
+
+export const tripChargerSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Enter a name').max(60, 'Keep the name under 60 characters'),
+  position: z.number().min(0, 'Must be 0 or more'),
+  maxKw: z.number().min(1, 'Must be at least 1 kW').max(500, 'Must be at most 500 kW'),
+}) as z.ZodType<TripCharger>;
+
+export function createTripCharger(name: string, values: Omit<TripCharger, 'id' | 'name'>): TripCharger {
+  return { id: createId(), name, ...values };
+}
+
+export const DEFAULT_TRIP_CHARGERS: Omit<TripCharger, 'id'>[] = [
+  { name: 'Service plaza', position: 70, maxKw: 150 },
+  { name: 'Foothills town', position: 150, maxKw: 50 },
+];
+
+/** Time lost to pulling off, plugging in and getting back on the road, in minutes. */
+export const STOP_OVERHEAD_MINUTES = 5;
+
+export interface ChargeStop {
+  charger: TripCharger;
+  /** Charge on arrival and when leaving, in %. */
+  arrivalCharge: number;
+  departureCharge: number;
+  /** Time plugged in, in minutes, not counting the stop overhead. */
+  minutes: number;
+  energyAdded: number;
+}
+
+export type ChargePlan =
+  | {
+      feasible: true;
+      stops: ChargeStop[];
+      /** Charge on reaching the destination, in %. */
+      arrivalCharge: number;
+      drivingMinutes: number;
+      /** Time plugged in plus the overhead of each stop. */
+      chargingMinutes: number;
+      totalMinutes: number;
+    }
+  | {
+      feasible: false;
+      /** Furthest point, in miles, reachable above the minimum charge when filling up at every charger on the way. */
+      reach: number;
+    };
+
+/** Charge is tracked on a grid of this many %, always rounding down so plans stay on the safe side. */
+const CHARGE_STEP = 0.5;
+const STEPS = 100 / CHARGE_STEP;
+
+/** Cumulative charge used from the start to each leg boundary, in %. */
+function chargeProfile(plan: TripPlan): { position: number; used: number }[] {
+  const points = [{ position: 0, used: 0 }];
+  plan.legs.forEach((legPlan) => {
+    const previous = points[points.length - 1];
+    points.push({
+      position: previous.position + legPlan.leg.distance,
+      used: previous.used + (legPlan.startCharge - legPlan.endCharge),
+    });
+  });
+  return points;
+}
+
+function usedAt(profile: { position: number; used: number }[], position: number): number {
+  for (let i = 1; i < profile.length; i++) {
+    if (position <= profile[i].position) {
+      const span = profile[i].position - profile[i - 1].position;
+      const share = span > 0 ? (position - profile[i - 1].position) / span : 1;
+      return profile[i - 1].used + share * (profile[i].used - profile[i - 1].used);
+    }
+  }
+  return profile[profile.length - 1].used;
+}
+
+/** Largest dip in charge between two points; leg boundaries are the only places a dip can bottom out. */
+function deepestDip(profile: { position: number; used: number }[], from: number, to: number): number {
+  const start = usedAt(profile, from);
+  return profile
+    .filter((point) => point.position > from && point.position < to)
+    .reduce((dip, point) => Math.max(dip, point.used - start), usedAt(profile, to) - start);
+}
+
+/** Where the charge first drops to `minimum` when leaving `from` with `charge`, or the end of the trip. */
+function reachFrom(profile: { position: number; used: number }[], from: number, charge: number, minimum: number): number {
+  if (charge <= minimum) {
+    return from;
+  }
+  const limit = usedAt(profile, from) + charge - minimum;
+  let previous = { position: from, used: usedAt(profile, from) };
+  for (const point of profile.filter((candidate) => candidate.position > from)) {
+    if (point.used > limit) {
+      const share = (limit - previous.used) / (point.used - previous.used);
+      return previous.position + share * (point.position - previous.position);
+    }
+    previous = point;
+  }
+  return profile[profile.length - 1].position;
+}
+
+/**
+ * Chooses where to stop and how far to charge so the trip takes as little time
+ * as possible while every arrival, at a charger or the destination, keeps at
+ * least `minimumCharge`. Driving time is the same for every plan, so this is a
+ * shortest path over (charger, arrival charge) minimising time plugged in plus
+ * a fixed overhead per stop. Chargers off the route are ignored.
+ */
+export function planChargingStops(
+  plan: TripPlan,
+  chargers: TripCharger[],
+  curve: ChargeCurve,
+  batteryCapacity: number,
+  startCharge: number,
+  minimumCharge: number,
+): ChargePlan {
+  const profile = chargeProfile(plan);
+  const onRoute = chargers
+    .filter((charger) => charger.position > 0 && charger.position < plan.totalDistance)
+    .sort((a, b) => a.position - b.position);
+  const positions = [0, ...onRoute.map((charger) => charger.position), plan.totalDistance];
+  const toStep = (charge: number) => Math.max(0, Math.min(STEPS, Math.floor(charge / CHARGE_STEP + 1e-9)));
+
+  // Minutes to charge from 0 to each grid step, per charger, so any session is a difference of two entries.
+  const sessionTables = onRoute.map((charger) => {
+    const table = [0];
+    for (let step = 1; step <= STEPS; step++) {
+      const { minutes } = chargeSession(curve, batteryCapacity, (step - 1) * CHARGE_STEP, step * CHARGE_STEP, charger.maxKw);
+      table.push(table[step - 1] + minutes);
+    }
+    return table;
+  });
+
+  // best[node][arrival step] is the least time spent charging to get there; via records how.
+  const best = positions.map(() => new Array<number>(STEPS + 1).fill(Infinity));
+  const via = positions.map(() => new Array<{ arrival: number; departure: number } | undefined>(STEPS + 1));
+  best[0][toStep(startCharge)] = 0;
+
+  for (let node = 0; node < positions.length - 1; node++) {
+    const dip = deepestDip(profile, positions[node], positions[node + 1]);
+    const used = usedAt(profile, positions[node + 1]) - usedAt(profile, positions[node]);
+    for (let arrival = 0; arrival <= STEPS; arrival++) {
+      if (best[node][arrival] === Infinity) {
+        continue;
+      }
+      // The start is not a charger, so the car leaves with whatever it has.
+      const lastDeparture = node === 0 ? arrival : STEPS;
+      for (let departure = arrival; departure <= lastDeparture; departure++) {
+        const charge = departure * CHARGE_STEP;
+        if (charge - dip < minimumCharge) {
+          continue;
+        }
+        const minutes = departure > arrival
+          ? sessionTables[node - 1][departure] - sessionTables[node - 1][arrival] + STOP_OVERHEAD_MINUTES
+          : 0;
+        const next = toStep(Math.min(100, charge - used));
+        const time = best[node][arrival] + minutes;
+        if (time < best[node + 1][next]) {
+          best[node + 1][next] = time;
+          via[node + 1][next] = { arrival, departure };
+        }
+      }
+    }
+  }
+
+  const last = positions.length - 1;
+  let arrival = -1;
+  for (let step = STEPS; step >= 0; step--) {
+    if (best[last][step] < Infinity && (arrival < 0 || best[last][step] < best[last][arrival])) {
+      arrival = step;
+    }
+  }
+
+  if (arrival < 0) {
+    // Filling up at the furthest charger in range each time gets as far as any plan can.
+    let position = 0;
+    let charge = startCharge;
+    for (;;) {
+      const reach = reachFrom(profile, position, charge, minimumCharge);
+      const next = onRoute.filter((charger) => charger.position > position && charger.position <= reach).pop();
+      if (!next || reach >= plan.totalDistance) {
+        return { feasible: false, reach };
+      }
+      position = next.position;
+      charge = 100;
+    }
+  }
+
+  const stops: ChargeStop[] = [];
+  const arrivalCharge = arrival * CHARGE_STEP;
+  for (let node = last; node > 0; node--) {
+    const step = via[node][arrival];
+    if (node - 1 > 0 && step.departure > step.arrival) {
+      const charger = onRoute[node - 2];
+      const from = step.arrival * CHARGE_STEP;
+      const to = step.departure * CHARGE_STEP;
+      stops.unshift({
+        charger,
+        arrivalCharge: from,
+        departureCharge: to,
+        minutes: sessionTables[node - 2][step.departure] - sessionTables[node - 2][step.arrival],
+        energyAdded: (batteryCapacity * (to - from)) / 100,
+      });
+    }
+    arrival = step.arrival;
+  }
+
+  const drivingMinutes = plan.legs.reduce((total, legPlan) => total + (legPlan.leg.distance / legPlan.leg.avgSpeed) * 60, 0);
+  const chargingMinutes = best[last][Math.round(arrivalCharge / CHARGE_STEP)];
+  return {
+    feasible: true,
+    stops,
+    arrivalCharge,
+    drivingMinutes,
+    chargingMinutes,
+    totalMinutes: drivingMinutes + chargingMinutes,
+  };
+}
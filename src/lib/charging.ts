@@ -0,0 +1,140 @@
+import { z } from 'zod';
+
+/** Charging power the car accepts at a given state of charge. */
+export interface ChargeCurvePoint {
+  /** State of charge, in %. */
+  soc: number;
+  /** Power, in kW. */
+  kw: number;
+}
+
+/** Points sorted by state of charge; power is interpolated linearly between them. */
+export type ChargeCurve = ChargeCurvePoint[];
+
+export const chargeCurveSchema = z
+  .array(z.object({
+    soc: z.number().min(0, 'Must be at least 0%').max(100, 'Must be at most 100%'),
+    kw: z.number().min(1, 'Must be at least 1 kW').max(500, 'Must be at most 500 kW'),
+  }))
+  .min(2, 'Add at least two points') as z.ZodType<ChargeCurve>;
+
+/** Share of peak power accepted across the charge, typical of current fast-charging EVs. */
+const TYPICAL_CURVE_SHAPE: ChargeCurve = [
+  { soc: 0, kw: 0.8 },
+  { soc: 10, kw: 1 },
+  { soc: 50, kw: 1 },
+  { soc: 80, kw: 0.45 },
+  { soc: 90, kw: 0.25 },
+  { soc: 100, kw: 0.1 },
+];
+/** Peak DC power as a multiple of pack capacity, capped at what current cars accept. */
+const TYPICAL_PEAK_C_RATE = 2;
+const MAX_TYPICAL_PEAK = 250;
+
+/** A typical tapering curve for a pack of the given usable capacity, for cars without a measured one. */
+export function typicalChargeCurve(batteryCapacity: number): ChargeCurve {
+  const peak = Math.min(MAX_TYPICAL_PEAK, Math.round(batteryCapacity * TYPICAL_PEAK_C_RATE));
+  return TYPICAL_CURVE_SHAPE.map((point) => ({ soc: point.soc, kw: Math.round(point.kw * peak) }));
+}
+
+/** Power the car accepts at `soc`, interpolated along the curve and held flat beyond its ends. */
+export function curvePower(curve: ChargeCurve, soc: number): number {
+  const points = [...curve].sort((a, b) => a.soc - b.soc);
+  if (soc <= points[0].soc) {
+    return points[0].kw;
+  }
+  for (let i = 1; i < points.length; i++) {
+    if (soc <= points[i].soc) {
+      const share = (soc - points[i - 1].soc) / (points[i].soc - points[i - 1].soc || 1);
+      return points[i - 1].kw + share * (points[i].kw - points[i - 1].kw);
+    }
+  }
+  return points[points.length - 1].kw;
+}
+
+/** State of charge step the charging session is integrated over, in %. */
+const INTEGRATION_STEP = 0.5;
+
+export interface ChargeSession {
+  /** Time to charge, in minutes. */
+  minutes: number;
+  /** Energy stored in the battery, in kWh. */
+  energyAdded: number;
+  /** The session in small slices, for pricing that changes with the clock. */
+  steps: ChargeStep[];
+}
+
+export interface ChargeStep {
+  /** Minutes after plugging in that the slice starts, and how long it lasts. */
+  start: number;
+  minutes: number;
+  /** Energy stored during the slice, in kWh. */
+  energy: number;
+}
+
+/**
+ * Integrates a session from `fromSoc` to `toSoc`, charging at whichever is
+ * lower of the charger's rating and the car's curve scaled by `acceptance`.
+ * Acceptance limits the battery, not the charger, so a cold pack slows fast
+ * charging a lot and slow AC charging hardly at all.
+ */
+export function chargeSession(
+  curve: ChargeCurve,
+  batteryCapacity: number,
+  fromSoc: number,
+  toSoc: number,
+  chargerKw: number,
+  acceptance = 1,
+): ChargeSession {
+  const steps: ChargeStep[] = [];
+  let minutes = 0;
+  for (let soc = fromSoc; soc < toSoc; soc += INTEGRATION_STEP) {
+    const step = Math.min(INTEGRATION_STEP, toSoc - soc);
+    const power = Math.min(chargerKw, curvePower(curve, soc + step / 2) * acceptance);
+    const energy = (batteryCapacity * step) / 100;
+    steps.push({ start: minutes, minutes: (energy / power) * 60, energy });
+    minutes += (energy / power) * 60;
+  }
+  return { minutes, energyAdded: (batteryCapacity * Math.max(0, toSoc - fromSoc)) / 100, steps };
+}
+
+export type ChargerType = 'level1' | 'level2' | 'dcfc';
+
+export interface ChargerTypeInfo {
+  label: string;
+  defaultKw: number;
+  minKw: number;
+  maxKw: number;
+  /** Share of the energy drawn from the grid that ends up in the battery. */
+  efficiency: number;
+}
+
+export const CHARGER_TYPES: Record<ChargerType, ChargerTypeInfo> = {
+  level1: { label: 'Level 1', defaultKw: 1.4, minKw: 0.5, maxKw: 2.4, efficiency: 0.85 },
+  level2: { label: 'Level 2', defaultKw: 7.7, minKw: 2.4, maxKw: 19.2, efficiency: 0.9 },
+  dcfc: { label: 'DC fast', defaultKw: 150, minKw: 20, maxKw: 500, efficiency: 0.93 },
+};
+
+/** Below this battery temperature, in °F, the pack accepts less power. */
+const COLD_CHARGE_THRESHOLD = 50;
+/** Share of acceptance lost per °F below the threshold, down to the floor. */
+const COLD_CHARGE_SLOPE = 0.01;
+const MIN_COLD_ACCEPTANCE = 0.3;
+
+/**
+ * Share of its normal charging power a pack soaked at `temperature` (°F)
+ * accepts. Without preconditioning a cold battery limits current to avoid
+ * lithium plating, roughly halving fast-charge power around 0 °F.
+ */
+export function coldChargeAcceptance(temperature: number): number {
+  return Math.min(1, Math.max(MIN_COLD_ACCEPTANCE, 1 - (COLD_CHARGE_THRESHOLD - temperature) * COLD_CHARGE_SLOPE));
+}
+
+/** Formats minutes as, for example, "45 min" or "2 h 05 min". */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) {
+    return `${rounded} min`;
+  }
+  return `${Math.floor(rounded / 60)} h ${String(rounded % 60).padStart(2, '0')} min`;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { importDrives, parseCsv } from '@/lib/drive-import';
+import { createLoggedDrive } from '@/lib/drive-log';
+import { createGarageVehicle, vehicleSpecs } from '@/lib/garage';
+import { DEFAULT_COEFFICIENTS, DEFAULT_INPUTS } from '@/lib/range-engine';
+
+// West of Greenwich, where a bare date read as UTC midnight falls on the previous local day.
+process.env.TZ = 'America/New_York';
+
+const vehicle = createGarageVehicle('Test car', vehicleSpecs(DEFAULT_INPUTS), DEFAULT_COEFFICIENTS);
+const table = parseCsv('date,distance,start_soc,end_soc,outside_temp,avg_speed\n2024-03-05,40,80,60,50,45\n');
+const mapping = { startTime: 0, distance: 1, startCharge: 2, endCharge: 3, temperature: 4, avgSpeed: 5 };
+const units = { distance: 'mi', speed: 'mph', temperature: '°F', energy: 'kWh' } as const;
+
+describe('importDrives', () => {
+  it('keeps a date without a time on that local day', () => {
+    expect(new Date(2024, 2, 5).getTimezoneOffset()).toBeGreaterThan(0);
+
+    const { drives, issues } = importDrives(table, mapping, units, vehicle, 'Simple', [], 'imperial');
+    expect(issues).toEqual([]);
+    expect(drives.map((drive) => drive.date)).toEqual(['2024-03-05']);
+  });
+
+  it('recognises a drive already logged by hand on the same day', () => {
+    const logged = createLoggedDrive(vehicle.id, vehicle.specs, 'Simple', vehicle.coefficients, {
+      date: '2024-03-05',
+      distance: 40,
+      chargeUsed: 20,
+      temperature: 50,
+      avgSpeed: 45,
+      cabinTemperature: DEFAULT_INPUTS.cabinTemperature,
+      elevationGain: 0,
+      elevationLoss: 0,
+    });
+
+    const { drives, duplicates } = importDrives(table, mapping, units, vehicle, 'Simple', [logged], 'imperial');
+    expect(drives).toEqual([]);
+    expect(duplicates).toEqual([2]);
+  });
+});
@@ -0,0 +1,353 @@
+import { DEFAULT_INPUTS, RangeModel } from '@/lib/range-engine';
+import { DriveValues, LoggedDrive, buildDriveSchema, createLoggedDrive, dateKey } from '@/lib/drive-log';
+import type { GarageVehicle } from '@/lib/garage';
+import { KM_PER_MILE, UnitSystem } from '@/lib/units';
+
+// Telematics tools (TeslaMate, ABRP, manufacturer apps) all export trips as
+// CSV, but with their own column names, units and delimiters. This maps such a
+// file onto logged drives: the user picks which column holds what, the units
+// are guessed from the headers and values, and every row is validated on its
+// own so one bad line doesn't sink the whole import.
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/** Splits CSV text into cells, honouring quoted fields and picking whichever of comma, semicolon or tab the header uses. */
+export function parseCsv(text: string): CsvTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      records.push([...record, cell]);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    records.push([...record, cell]);
+  }
+
+  const [headers = [], ...rows] = records;
+  if (headers.every((header) => header.trim() === '')) {
+    throw new Error('The file has no header row');
+  }
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+export type ImportField =
+  | 'startTime'
+  | 'endTime'
+  | 'distance'
+  | 'startCharge'
+  | 'endCharge'
+  | 'energyUsed'
+  | 'temperature'
+  | 'avgSpeed';
+
+export const IMPORT_FIELDS: Record<ImportField, { label: string; help: string }> = {
+  startTime: { label: 'Start time', help: 'When the drive started; its date is the date of the drive.' },
+  endTime: { label: 'End time', help: 'When the drive ended, used to work out the average speed if the file has none.' },
+  distance: { label: 'Distance', help: 'How far the drive went.' },
+  startCharge: { label: 'Start charge (%)', help: 'Battery percentage at the start of the drive.' },
+  endCharge: { label: 'End charge (%)', help: 'Battery percentage at the end of the drive.' },
+  energyUsed: { label: 'Energy used', help: 'Energy the drive took from the battery, used when the file has no start and end charge.' },
+  temperature: { label: 'Outside temperature', help: 'Average outside temperature over the drive.' },
+  avgSpeed: { label: 'Average speed', help: 'Average moving speed over the drive.' },
+};
+
+/** Column index in the file for each field the file has. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** Header patterns, matched against lower-cased headers, most specific first. */
+const HEADER_PATTERNS: Record<ImportField, RegExp[]> = {
+  startTime: [/start.*(date|time)/, /depart/, /^(date|time|timestamp|datetime)$/],
+  endTime: [/end.*(date|time)/, /arriv/],
+  distance: [/distance|dist_|^dist$/, /^(km|miles?)$/],
+  startCharge: [/start.*(soc|battery|charge|level)/, /(soc|battery).*start/],
+  endCharge: [/end.*(soc|battery|charge|level)/, /(soc|battery).*end/],
+  energyUsed: [/(energy|kwh).*(used|consumed)|(used|consumed).*(energy|kwh)/, /^(energy|kwh|consumption_kwh)$/],
+  temperature: [/(outside|ambient|exterior|ext).*temp|temp.*(outside|ambient|ext)/, /^(avg_)?temp/],
+  avgSpeed: [/(avg|average|mean).*speed|speed.*(avg|average|mean)/, /^speed$/],
+};
+
+/** Guesses which column holds each field from the header names; each column is used at most once. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z0-9%]+/g, '_').replace(/^_|_$/g, ''));
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  (Object.keys(HEADER_PATTERNS) as ImportField[]).forEach((field) => {
+    for (const pattern of HEADER_PATTERNS[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && pattern.test(header));
+      if (index > -1) {
+        mapping[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  });
+  return mapping;
+}
+
+/** Why a mapping can't produce drives yet, or an empty list when it can. */
+export function mappingProblems(mapping: ColumnMapping): string[] {
+  const problems: string[] = [];
+  const has = (field: ImportField) => mapping[field] !== undefined;
+  if (!has('startTime')) {
+    problems.push('Choose the column with the start time or date.');
+  }
+  if (!has('distance')) {
+    problems.push('Choose the column with the distance.');
+  }
+  if (!(has('startCharge') && has('endCharge')) && !has('energyUsed')) {
+    problems.push('Choose either the start and end charge columns or the energy used column.');
+  }
+  if (!has('temperature')) {
+    problems.push('Choose the column with the outside temperature.');
+  }
+  if (!has('avgSpeed') && !has('endTime')) {
+    problems.push('Choose the average speed column, or the end time so the speed can be worked out.');
+  }
+  return problems;
+}
+
+export interface ImportUnits {
+  distance: 'mi' | 'km';
+  speed: 'mph' | 'km/h';
+  temperature: '°F' | '°C';
+  energy: 'kWh' | 'Wh';
+}
+
+export const UNIT_OPTIONS: { [K in keyof ImportUnits]: ImportUnits[K][] } = {
+  distance: ['mi', 'km'],
+  speed: ['mph', 'km/h'],
+  temperature: ['°F', '°C'],
+  energy: ['kWh', 'Wh'],
+};
+
+const UNIT_HINTS: { [K in keyof ImportUnits]: [RegExp, ImportUnits[K]][] } = {
+  distance: [[/km|kilomet/, 'km'], [/mi(le)?s?\b|_mi$/, 'mi']],
+  speed: [[/km.?h|kph|kmh/, 'km/h'], [/mph/, 'mph']],
+  temperature: [[/°?c\b|_c$|celsius/, '°C'], [/°?f\b|_f$|fahrenheit/, '°F']],
+  energy: [[/kwh/, 'kWh'], [/wh\b|_wh$/, 'Wh']],
+};
+
+const parseNumber = (text: string): number => {
+  const trimmed = text.trim();
+  // Semicolon-separated exports usually come with decimal commas.
+  return trimmed === '' ? NaN : Number(/^-?\d+,\d+$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed);
+};
+
+/**
+ * Guesses the file's units from the mapped column headers, falling back to the
+ * values and then to the user's unit system. Temperatures above 50 can only be
+ * °F for a drive; otherwise speeds and temperatures follow the distance unit
+ * when their header says nothing. Energy is kWh unless the header says Wh.
+ */
+export function detectUnits(table: CsvTable, mapping: ColumnMapping, system: UnitSystem): ImportUnits {
+  const header = (field: ImportField) => (mapping[field] === undefined ? '' : table.headers[mapping[field]].toLowerCase());
+  const hinted = <K extends keyof ImportUnits>(quantity: K, field: ImportField): ImportUnits[K] | undefined =>
+    UNIT_HINTS[quantity].find(([pattern]) => pattern.test(header(field)))?.[1] as ImportUnits[K] | undefined;
+  const values = (field: ImportField) =>
+    mapping[field] === undefined ? [] : table.rows.map((row) => parseNumber(row[mapping[field]] ?? '')).filter((value) => !isNaN(value));
+
+  const distance = hinted('distance', 'distance') ?? (system === 'metric' ? 'km' : 'mi');
+  return {
+    distance,
+    speed: hinted('speed', 'avgSpeed') ?? (distance === 'km' ? 'km/h' : 'mph'),
+    temperature: hinted('temperature', 'temperature')
+      ?? (values('temperature').some((value) => value > 50) ? '°F' : distance === 'km' ? '°C' : '°F'),
+    energy: hinted('energy', 'energyUsed') ?? 'kWh',
+  };
+}
+
+/**
+ * Reads a timestamp as ISO 8601 text, or as Unix time in seconds or
+ * milliseconds. Text without a time zone is local time, like the dates the
+ * journal keys drives by; `Date.parse` would read a bare date as UTC midnight,
+ * which is the previous day anywhere west of Greenwich.
+ */
+function parseTimestamp(text: string): Date | undefined {
+  const trimmed = text.trim();
+  if (/^\d{9,13}$/.test(trimmed)) {
+    return new Date(Number(trimmed) * (trimmed.length > 10 ? 1 : 1000));
+  }
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 ? date : undefined;
+  }
+  const time = Date.parse(trimmed);
+  return isNaN(time) ? undefined : new Date(time);
+}
+
+/** Problems with one line of the file, numbered as a spreadsheet would show them. */
+export interface RowIssue {
+  line: number;
+  messages: string[];
+}
+
+export interface DriveImport {
+  drives: LoggedDrive[];
+  issues: RowIssue[];
+  /** Lines skipped because the same drive is already logged or appears earlier in the file. */
+  duplicates: number[];
+}
+
+const DRIVE_FIELD_LABELS: Partial<Record<keyof DriveValues, string>> = {
+  date: IMPORT_FIELDS.startTime.label,
+  distance: IMPORT_FIELDS.distance.label,
+  chargeUsed: 'Charge used',
+  temperature: IMPORT_FIELDS.temperature.label,
+  avgSpeed: IMPORT_FIELDS.avgSpeed.label,
+};
+
+/** Drives count as the same when they share a vehicle, day, distance and charge used, to a tenth. */
+const driveKey = (drive: LoggedDrive) =>
+  [drive.vehicleId, drive.date, drive.inputs.routeDistance.toFixed(1), drive.chargeUsed.toFixed(1)].join('|');
+
+/**
+ * Turns every data row of `table` into a drive of `vehicle`, predicted with
+ * `model` and the vehicle's coefficients. Rows that can't be read or fail the
+ * same validation as a hand-logged drive are reported with their line number;
+ * rows matching a drive in `existing` or earlier in the file are skipped.
+ * Elevation isn't in typical exports, so imported drives count as flat.
+ * Throws if the mapping still has `mappingProblems`.
+ */
+export function importDrives(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  units: ImportUnits,
+  vehicle: GarageVehicle,
+  model: RangeModel,
+  existing: LoggedDrive[],
+  system: UnitSystem,
+): DriveImport {
+  const problems = mappingProblems(mapping);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+  const schema = buildDriveSchema(system);
+  const seen = new Set(existing.map(driveKey));
+  const result: DriveImport = { drives: [], issues: [], duplicates: [] };
+
+  table.rows.forEach((row, index) => {
+    // The header is line 1.
+    const line = index + 2;
+    if (row.every((cell) => cell.trim() === '')) {
+      return;
+    }
+    const messages: string[] = [];
+    const cell = (field: ImportField) => (mapping[field] === undefined ? undefined : row[mapping[field]] ?? '');
+    const number = (field: ImportField): number => {
+      const text = cell(field);
+      if (text === undefined) {
+        return NaN;
+      }
+      const value = parseNumber(text);
+      if (isNaN(value)) {
+        messages.push(`${IMPORT_FIELDS[field].label}: ${text.trim() === '' ? 'missing' : `"${text.trim()}" is not a number`}`);
+      }
+      return value;
+    };
+    const timestamp = (field: ImportField): Date | undefined => {
+      const text = cell(field);
+      const value = text === undefined ? undefined : parseTimestamp(text);
+      if (text !== undefined && !value) {
+        messages.push(`${IMPORT_FIELDS[field].label}: ${text.trim() === '' ? 'missing' : `"${text.trim()}" is not a date`}`);
+      }
+      return value;
+    };
+
+    const start = timestamp('startTime');
+    const end = timestamp('endTime');
+    const distance = number('distance') / (units.distance === 'km' ? KM_PER_MILE : 1);
+    const temperatureValue = number('temperature');
+    const temperature = units.temperature === '°C' ? temperatureValue * 9 / 5 + 32 : temperatureValue;
+
+    let chargeUsed: number;
+    if (mapping.startCharge !== undefined && mapping.endCharge !== undefined) {
+      chargeUsed = number('startCharge') - number('endCharge');
+    } else {
+      const energy = number('energyUsed') / (units.energy === 'Wh' ? 1000 : 1);
+      chargeUsed = (energy / vehicle.specs.batteryCapacity) * 100;
+    }
+
+    let avgSpeed: number;
+    if (mapping.avgSpeed !== undefined) {
+      avgSpeed = number('avgSpeed') / (units.speed === 'km/h' ? KM_PER_MILE : 1);
+    } else if (start && end) {
+      const hours = (end.getTime() - start.getTime()) / 3_600_000;
+      if (hours <= 0) {
+        messages.push(`${IMPORT_FIELDS.endTime.label}: must be after the start time`);
+      }
+      avgSpeed = distance / hours;
+    }
+
+    if (messages.length > 0) {
+      result.issues.push({ line, messages });
+      return;
+    }
+
+    const parsed = schema.safeParse({
+      date: dateKey(start),
+      distance,
+      chargeUsed,
+      temperature,
+      avgSpeed,
+      cabinTemperature: DEFAULT_INPUTS.cabinTemperature,
+      elevationGain: 0,
+      elevationLoss: 0,
+    });
+    if (!parsed.success) {
+      result.issues.push({
+        line,
+        messages: parsed.error.issues.map((issue) => `${DRIVE_FIELD_LABELS[issue.path[0] as keyof DriveValues] ?? issue.path.join('.')}: ${issue.message}`),
+      });
+      return;
+    }
+
+    const drive = createLoggedDrive(vehicle.id, vehicle.specs, model, vehicle.coefficients, parsed.data);
+    const key = driveKey(drive);
+    if (seen.has(key)) {
+      result.duplicates.push(line);
+      return;
+    }
+    seen.add(key);
+    result.drives.push(drive);
+  });
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { DEFAULT_INPUTS, ModelCoefficients, RangeInputs, RangeModel, estimateRange } from '@/lib/range-engine';
+import { buildRangeInputsObject } from '@/lib/range-schema';
+import { createId } from '@/lib/storage';
+import type { UnitSystem } from '@/lib/units';
+import type { VehicleSpecs } from '@/lib/garage';
+
+/** What the driver records after a completed drive. Canonical units throughout. */
+export interface DriveValues {
+  /** Day of the drive, as YYYY-MM-DD. */
+  date: string;
+  distance: number;
+  /** Share of the battery the drive used, in %. */
+  chargeUsed: number;
+  temperature: number;
+  avgSpeed: number;
+  cabinTemperature: number;
+  elevationGain: number;
+  elevationLoss: number;
+}
+
+export interface LoggedDrive {
+  id: string;
+  vehicleId: string;
+  date: string;
+  /** Estimator inputs for the drive: the vehicle as it was then, over the whole distance from a full battery. */
+  inputs: RangeInputs;
+  /** Share of the battery the estimator expected the drive to use when it was logged, in %. */
+  predicted: number;
+  /** Share of the battery actually used, in %. */
+  chargeUsed: number;
+}
+
+/** Validates a drive with the same bounds, and messages, as the matching estimator inputs. */
+export function buildDriveSchema(system: UnitSystem): z.ZodType<DriveValues> {
+  const shape = buildRangeInputsObject(system).shape;
+  return z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter a date'),
+    distance: shape.routeDistance,
+    chargeUsed: z
+      .number({ required_error: 'Enter a number', invalid_type_error: 'Enter a number' })
+      .gt(0, 'Must be more than 0%')
+      .max(100, 'Must be at most 100%'),
+    temperature: shape.temperature,
+    avgSpeed: shape.avgSpeed,
+    cabinTemperature: shape.cabinTemperature,
+    elevationGain: shape.elevationGain,
+    elevationLoss: shape.elevationLoss,
+  }) as z.ZodType<DriveValues>;
+}
+
+/** Records a drive along with what the estimator, as it is now set up for the vehicle, would have predicted. */
+export function createLoggedDrive(
+  vehicleId: string,
+  specs: VehicleSpecs,
+  model: RangeModel,
+  coefficients: ModelCoefficients,
+  { date, distance, chargeUsed, ...conditions }: DriveValues,
+): LoggedDrive {
+  const inputs: RangeInputs = { ...DEFAULT_INPUTS, ...specs, ...conditions, model, routeDistance: distance, currentCharge: 100 };
+  return { id: createId(), vehicleId, date, inputs, predicted: predictedChargeUsed(inputs, coefficients), chargeUsed };
+}
+
+/**
+ * Share of the battery, in %, the estimator expects the drive to use. Like the
+ * trip planner this is consumption per mile times distance, which does not
+ * depend on the starting charge.
+ */
+export function predictedChargeUsed(inputs: RangeInputs, coefficients: ModelCoefficients): number {
+  const { consumption } = estimateRange({ ...inputs, currentCharge: 100 }, coefficients);
+  return (consumption * inputs.routeDistance) / 1000 / inputs.batteryCapacity * 100;
+}
+
+/** Local date of `date` as YYYY-MM-DD. */
+export function dateKey(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((part) => String(part).padStart(2, '0')).join('-');
+}
+
+/** Today's local date as YYYY-MM-DD. */
+export function today(): string {
+  return dateKey(new Date());
+}
+
+export interface PredictionError {
+  /** Mean absolute error, root mean square error and mean signed error, in points of charge. */
+  mae: number;
+  rmse: number;
+  /** Positive when the estimator expects more charge to be used than was. */
+  bias: number;
+}
+
+/** Error statistics for predicted minus actual charge used. */
+export function summarizeErrors(errors: number[]): PredictionError {
+  const count = errors.length || 1;
+  return {
+    mae: errors.reduce((total, error) => total + Math.abs(error), 0) / count,
+    rmse: Math.sqrt(errors.reduce((total, error) => total + error * error, 0) / count),
+    bias: errors.reduce((total, error) => total + error, 0) / count,
+  };
+}
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn';
+
+export const SEASONS: Record<Season, string> = {
+  winter: 'Winter',
+  spring: 'Spring',
+  summer: 'Summer',
+  autumn: 'Autumn',
+};
+
+/** Meteorological season of a YYYY-MM-DD date, northern hemisphere. */
+export function seasonOf(date: string): Season {
+  const month = Number(date.slice(5, 7));
+  if (month === 12 || month <= 2) {
+    return 'winter';
+  }
+  if (month <= 5) {
+    return 'spring';
+  }
+  return month <= 8 ? 'summer' : 'autumn';
+}
+
+const CSV_COLUMNS: { header: string; value: (drive: LoggedDrive) => string | number }[] = [
+  { header: 'date', value: (drive) => drive.date },
+  { header: 'distance_mi', value: (drive) => drive.inputs.routeDistance },
+  { header: 'temperature_f', value: (drive) => drive.inputs.temperature },
+  { header: 'avg_speed_mph', value: (drive) => drive.inputs.avgSpeed },
+  { header: 'cabin_temperature_f', value: (drive) => drive.inputs.cabinTemperature },
+  { header: 'elevation_gain_ft', value: (drive) => drive.inputs.elevationGain },
+  { header: 'elevation_loss_ft', value: (drive) => drive.inputs.elevationLoss },
+  { header: 'model', value: (drive) => drive.inputs.model },
+  { header: 'predicted_charge_pct', value: (drive) => drive.predicted },
+  { header: 'actual_charge_pct', value: (drive) => drive.chargeUsed },
+  { header: 'predicted_kwh', value: (drive) => (drive.predicted / 100) * drive.inputs.batteryCapacity },
+  { header: 'actual_kwh', value: (drive) => (drive.chargeUsed / 100) * drive.inputs.batteryCapacity },
+];
+
+function csvField(value: string | number): string {
+  const text = typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Drives as CSV in canonical units, with the vehicle's name in the first column. */
+export function serializeDrivesCsv(drives: LoggedDrive[], vehicleName: (id: string) => string): string {
+  const rows = drives.map((drive) => [vehicleName(drive.vehicleId), ...CSV_COLUMNS.map((column) => column.value(drive))]);
+  return [['vehicle', ...CSV_COLUMNS.map((column) => column.header)], ...rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\n');
+}
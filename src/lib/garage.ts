@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { ChargeCurve, chargeCurveSchema } from '@/lib/charging';
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeInputs, RangeModel } from '@/lib/range-engine';
+import { buildRangeInputsObject, modelCoefficientsSchema } from '@/lib/range-schema';
+import { createId } from '@/lib/storage';
+import { Tariff, tariffSchema } from '@/lib/tariffs';
+
+/** Inputs that describe the car itself rather than today's drive. */
+export const VEHICLE_SPEC_KEYS = [
+  'batteryCapacity',
+  'epaRange',
+  'heaterType',
+  'mass',
+  'dragCoefficient',
+  'frontalArea',
+  'rollingResistance',
+  'drivetrainEfficiency',
+  'auxiliaryLoad',
+  'regenEfficiency',
+] as const;
+
+export type VehicleSpecKey = (typeof VEHICLE_SPEC_KEYS)[number];
+export type VehicleSpecs = Pick<RangeInputs, VehicleSpecKey>;
+
+export interface GarageVehicle {
+  id: string;
+  name: string;
+  specs: VehicleSpecs;
+  /** Per-car calibration applied on top of the specs. */
+  coefficients: ModelCoefficients;
+  /** Set when the coefficients were last fitted to logged drives. */
+  calibration?: CalibrationRecord;
+  /** Measured kW vs charge; a typical curve for the pack size is used when missing. */
+  chargeCurve?: ChargeCurve;
+  /** Catalog entry the specs started from, if any. */
+  catalogId?: string;
+}
+
+export interface CalibrationRecord {
+  model: RangeModel;
+  /** When the fit was applied, as an ISO timestamp. */
+  fittedAt: string;
+  driveCount: number;
+  /** Mean absolute error over those drives, in points of charge, before and after the fit. */
+  errorBefore: number;
+  errorAfter: number;
+}
+
+/** Bump when the export format changes incompatibly. */
+export const GARAGE_FILE_VERSION = 1;
+
+const vehicleSpecsSchema = buildRangeInputsObject('imperial').pick({
+  batteryCapacity: true,
+  epaRange: true,
+  heaterType: true,
+  mass: true,
+  dragCoefficient: true,
+  frontalArea: true,
+  rollingResistance: true,
+  drivetrainEfficiency: true,
+  auxiliaryLoad: true,
+  regenEfficiency: true,
+}) as z.ZodType<VehicleSpecs>;
+
+const garageVehicleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(60),
+  specs: vehicleSpecsSchema,
+  // Files exported before calibration existed simply get the defaults.
+  coefficients: modelCoefficientsSchema.default(DEFAULT_COEFFICIENTS),
+  calibration: z.object({
+    model: z.enum(['Simple', 'Physics']),
+    fittedAt: z.string(),
+    driveCount: z.number().int().min(0),
+    errorBefore: z.number().min(0),
+    errorAfter: z.number().min(0),
+  }).optional(),
+  chargeCurve: chargeCurveSchema.optional(),
+  catalogId: z.string().optional(),
+}) as z.ZodType<GarageVehicle>;
+
+const garageFileSchema = z.object({
+  version: z.literal(GARAGE_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported garage file version (expected ${GARAGE_FILE_VERSION})` }),
+  }),
+  vehicles: z.array(garageVehicleSchema),
+  // Files exported before tariffs existed have none.
+  tariffs: z.array(tariffSchema).default([]),
+});
+
+/** Everything a garage export carries. */
+export interface GarageFile {
+  vehicles: GarageVehicle[];
+  tariffs: Tariff[];
+}
+
+export function vehicleSpecs(inputs: RangeInputs): VehicleSpecs {
+  return Object.fromEntries(VEHICLE_SPEC_KEYS.map((key) => [key, inputs[key]])) as VehicleSpecs;
+}
+
+/** True when the inputs still match the saved vehicle's specs. */
+export function matchesSpecs(inputs: RangeInputs, specs: VehicleSpecs): boolean {
+  return VEHICLE_SPEC_KEYS.every((key) => inputs[key] === specs[key]);
+}
+
+export function createGarageVehicle(
+  name: string,
+  specs: VehicleSpecs,
+  coefficients: ModelCoefficients,
+  catalogId?: string,
+): GarageVehicle {
+  return { id: createId(), name: name.trim(), specs, coefficients, catalogId };
+}
+
+export function serializeGarage({ vehicles, tariffs }: GarageFile): string {
+  return JSON.stringify({ version: GARAGE_FILE_VERSION, vehicles, tariffs }, null, 2);
+}
+
+/**
+ * Parses an exported garage file. Throws an Error whose message is fit to show
+ * the user when the file is not JSON or any vehicle or tariff fails validation.
+ */
+export function parseGarage(text: string): GarageFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const result = garageFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new Error(`${path}${issue.message}`);
+  }
+  return { vehicles: result.data.vehicles, tariffs: result.data.tariffs as Tariff[] };
+}
+
+/** Adds imported vehicles or tariffs, replacing any with the same id. */
+export function mergeGarage<T extends { id: string }>(existing: T[], imported: T[]): T[] {
+  const importedIds = new Set(imported.map((item) => item.id));
+  return [...existing.filter((item) => !importedIds.has(item.id)), ...imported];
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { goalSeek } from '@/lib/goal-seek';
+import { DEFAULT_COEFFICIENTS, DEFAULT_INPUTS, estimateRange } from '@/lib/range-engine';
+import { COEFFICIENT_BOUNDS } from '@/lib/range-schema';
+
+describe('goalSeek', () => {
+  it('never answers with a speed the model had to clamp', () => {
+    // The steepest calibrated speed curve clamps well below the top of the input range.
+    const coefficients = { ...DEFAULT_COEFFICIENTS, speed: COEFFICIENT_BOUNDS.speed.max };
+    const inputs = DEFAULT_INPUTS;
+    expect(estimateRange({ ...inputs, avgSpeed: 85 }, coefficients).warnings).not.toHaveLength(0);
+
+    const result = goalSeek(inputs, 'avgSpeed', { distance: 50, reserve: 10 }, coefficients);
+    expect(result.solved).toBe(true);
+    if (result.solved) {
+      expect(result.clamped).toBe(false);
+      expect(result.value).toBeLessThan(85);
+      expect(estimateRange({ ...inputs, avgSpeed: result.value }, coefficients).warnings).toEqual([]);
+    }
+  });
+
+  it('ignores factors that clamp whatever the speed', () => {
+    const inputs = { ...DEFAULT_INPUTS, temperature: -20 };
+    expect(estimateRange(inputs, DEFAULT_COEFFICIENTS).warnings.map((warning) => warning.factor)).toContain('temperature');
+
+    const result = goalSeek(inputs, 'avgSpeed', { distance: 20, reserve: 10 });
+    expect(result).toMatchObject({ solved: true, clamped: false });
+  });
+});
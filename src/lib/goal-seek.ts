@@ -0,0 +1,120 @@
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeInputs, estimateRange } from '@/lib/range-engine';
+import { INPUT_BOUNDS } from '@/lib/range-schema';
+
+/** Inputs the solver can free up to hit a target distance. */
+export type GoalSeekVariable = 'avgSpeed' | 'currentCharge' | 'cabinTemperature';
+
+export interface GoalSeekTarget {
+  /** Distance to cover, in miles. */
+  distance: number;
+  /** Charge that must be left on arrival, in %. */
+  reserve: number;
+}
+
+export type GoalSeekResult =
+  | {
+      solved: true;
+      value: number;
+      reach: number;
+      /** The model clamped a factor at this value, so the answer leans on an extrapolated estimate. */
+      clamped?: boolean;
+    }
+  | {
+      solved: false;
+      /** Most favourable value of the free variable, and how far it still gets. */
+      best: number;
+      reach: number;
+    };
+
+/** Bisection stops once the bracket is narrower than this, in the variable's own units. */
+const TOLERANCE = 0.01;
+/** Speed is scanned on this grid before bisecting, since range is not monotonic in speed. */
+const SPEED_SCAN_STEP = 1;
+
+/**
+ * Distance the inputs cover before the charge falls to the reserve. Usable
+ * energy scales linearly with charge in both models, so this is the estimate
+ * with the reserve taken off the starting charge.
+ */
+export function reachWithReserve(
+  inputs: RangeInputs,
+  reserve: number,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): number {
+  if (inputs.currentCharge <= reserve) {
+    return 0;
+  }
+  return estimateRange({ ...inputs, currentCharge: inputs.currentCharge - reserve }, coefficients).estimatedRange;
+}
+
+/** Narrows [pass, fail] down to the boundary value that still passes. */
+function bisect(pass: number, fail: number, passes: (value: number) => boolean): number {
+  while (Math.abs(fail - pass) > TOLERANCE) {
+    const middle = (pass + fail) / 2;
+    if (passes(middle)) {
+      pass = middle;
+    } else {
+      fail = middle;
+    }
+  }
+  return pass;
+}
+
+/**
+ * Solves for the free variable so the trip completes with the reserve intact:
+ * the fastest average speed, the lowest departure charge, or the cabin
+ * setpoint closest to the current one. Everything else stays as given.
+ */
+export function goalSeek(
+  inputs: RangeInputs,
+  variable: GoalSeekVariable,
+  target: GoalSeekTarget,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): GoalSeekResult {
+  const reachAt = (value: number) => reachWithReserve({ ...inputs, [variable]: value }, target.reserve, coefficients);
+  const passes = (value: number) => reachAt(value) >= target.distance;
+  const { min, max } = INPUT_BOUNDS[variable];
+
+  if (variable === 'avgSpeed') {
+    // Past the clamp the estimate stops falling with speed, so a clamped speed
+    // can look like it makes the trip when the model has simply run out of curve.
+    // Those are only used when every speed clamps, and the answer is flagged.
+    // Other factors clamp the same way at every speed, so they don't count.
+    const unclamped = (speed: number) =>
+      !estimateRange({ ...inputs, avgSpeed: speed }, coefficients).warnings.some((warning) => warning.factor === 'speed');
+    const speeds = Array.from({ length: (max - min) / SPEED_SCAN_STEP + 1 }, (_, index) => max - index * SPEED_SCAN_STEP);
+    const trusted = speeds.filter(unclamped);
+    const clamped = trusted.length === 0;
+    const candidates = clamped ? speeds : trusted;
+    const acceptable = (speed: number) => passes(speed) && (clamped || unclamped(speed));
+
+    const fastest = candidates.find(passes);
+    if (fastest !== undefined) {
+      const value = fastest === max ? max : bisect(fastest, fastest + SPEED_SCAN_STEP, acceptable);
+      return { solved: true, value, reach: reachAt(value), clamped };
+    }
+    const best = candidates.reduce((a, b) => (reachAt(b) >= reachAt(a) ? b : a));
+    return { solved: false, best, reach: reachAt(best) };
+  }
+
+  if (variable === 'currentCharge') {
+    if (!passes(max)) {
+      return { solved: false, best: max, reach: reachAt(max) };
+    }
+    const value = bisect(max, Math.max(min, target.reserve), passes);
+    return { solved: true, value, reach: reachAt(value) };
+  }
+
+  // Climate power grows with the gap between cabin and outside, so the
+  // cheapest setpoint is the outside temperature, limited to what the car allows.
+  const current = inputs.cabinTemperature;
+  const cheapest = Math.min(max, Math.max(min, inputs.temperature));
+  if (passes(current)) {
+    return { solved: true, value: current, reach: reachAt(current) };
+  }
+  if (!passes(cheapest)) {
+    return { solved: false, best: cheapest, reach: reachAt(cheapest) };
+  }
+  const value = bisect(cheapest, current, passes);
+  return { solved: true, value, reach: reachAt(value) };
+}
@@ -0,0 +1,145 @@
+import { DEFAULT_COEFFICIENTS, Factors, ModelCoefficients, RangeInputs, RangeResult, estimateRange } from '@/lib/range-engine';
+import { INPUT_BOUNDS, NumericInputKey } from '@/lib/range-schema';
+
+const clamp = (key: NumericInputKey, value: number) =>
+  Math.min(INPUT_BOUNDS[key].max, Math.max(INPUT_BOUNDS[key].min, value));
+
+function evenSteps(key: NumericInputKey, points: number): number[] {
+  const { min, max } = INPUT_BOUNDS[key];
+  return Array.from({ length: points }, (_, index) => min + ((max - min) * index) / (points - 1));
+}
+
+export interface SweepPoint {
+  /** Input value, in canonical units. */
+  value: number;
+  estimatedRange: number;
+}
+
+/**
+ * Estimated range with one input stepped evenly across its accepted bounds
+ * and every other input held at its current value.
+ */
+export function sweepRange(
+  inputs: RangeInputs,
+  key: NumericInputKey,
+  points: number,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): SweepPoint[] {
+  return evenSteps(key, points).map((value) => ({
+    value,
+    estimatedRange: estimateRange({ ...inputs, [key]: value }, coefficients).estimatedRange,
+  }));
+}
+
+export interface RangeGrid {
+  /** Column input values, in canonical units. */
+  xs: number[];
+  /** Row input values, in canonical units. */
+  ys: number[];
+  /** Estimated range per cell, indexed [row][column]. */
+  ranges: number[][];
+}
+
+/** Estimated range over every combination of two inputs, each stepped evenly across its bounds. */
+export function rangeGrid(
+  inputs: RangeInputs,
+  xKey: NumericInputKey,
+  yKey: NumericInputKey,
+  xPoints: number,
+  yPoints: number,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): RangeGrid {
+  const xs = evenSteps(xKey, xPoints);
+  const ys = evenSteps(yKey, yPoints);
+  const ranges = ys.map((y) =>
+    xs.map((x) => estimateRange({ ...inputs, [xKey]: x, [yKey]: y }, coefficients).estimatedRange)
+  );
+  return { xs, ys, ranges };
+}
+
+/** Order the factors are applied in when losses are attributed sequentially. */
+export const FACTOR_ORDER: (keyof Factors)[] = ['temperature', 'speed', 'climate', 'terrain'];
+
+export type AttributionMethod = 'sequential' | 'shapley';
+
+export interface RangeLoss {
+  factor: keyof Factors;
+  /** Range lost to this factor, in miles; negative when the factor adds range. */
+  loss: number;
+}
+
+/**
+ * Splits the gap between the base range and the estimate across the factors.
+ * Because the factors multiply, how much each one "costs" depends on what has
+ * already been applied: sequential attribution charges each factor against the
+ * range left after the ones before it in FACTOR_ORDER, while Shapley
+ * attribution averages that over every order. Both sum to the total loss.
+ */
+export function attributeRangeLoss(result: RangeResult, method: AttributionMethod): RangeLoss[] {
+  const { baseRange, factors } = result;
+  if (method === 'sequential') {
+    let remaining = baseRange;
+    return FACTOR_ORDER.map((factor) => {
+      const loss = remaining * (1 - factors[factor]);
+      remaining -= loss;
+      return { factor, loss };
+    });
+  }
+
+  // Range lost with only the factors in `subset` applied, for each of the 2^n subsets as a bitmask.
+  const n = FACTOR_ORDER.length;
+  const lossWith = (subset: number) =>
+    baseRange * (1 - FACTOR_ORDER.reduce((product, factor, i) => (subset & (1 << i) ? product * factors[factor] : product), 1));
+  const factorial = (k: number): number => (k <= 1 ? 1 : k * factorial(k - 1));
+
+  return FACTOR_ORDER.map((factor, i) => {
+    let loss = 0;
+    for (let subset = 0; subset < 1 << n; subset++) {
+      if (subset & (1 << i)) {
+        continue;
+      }
+      let size = 0;
+      for (let bits = subset; bits; bits >>= 1) {
+        size += bits & 1;
+      }
+      const weight = (factorial(size) * factorial(n - size - 1)) / factorial(n);
+      loss += weight * (lossWith(subset | (1 << i)) - lossWith(subset));
+    }
+    return { factor, loss };
+  });
+}
+
+export interface InputSensitivity {
+  key: NumericInputKey;
+  /** Perturbed input values, clamped to the input's bounds. */
+  low: number;
+  high: number;
+  lowRange: number;
+  highRange: number;
+  /** Largest change in range either way, which the bars are sorted by. */
+  impact: number;
+}
+
+/**
+ * Re-estimates range with each input moved down and up by its delta (in
+ * canonical units), one at a time. Inputs that cannot move, because the delta
+ * is zero or they already sit at both bounds, are left out. Sorted by impact,
+ * largest first.
+ */
+export function inputSensitivity(
+  inputs: RangeInputs,
+  deltas: Partial<Record<NumericInputKey, number>>,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): InputSensitivity[] {
+  const base = estimateRange(inputs, coefficients).estimatedRange;
+  return (Object.keys(deltas) as NumericInputKey[])
+    .map((key) => {
+      const low = clamp(key, inputs[key] - Math.abs(deltas[key]));
+      const high = clamp(key, inputs[key] + Math.abs(deltas[key]));
+      const lowRange = estimateRange({ ...inputs, [key]: low }, coefficients).estimatedRange;
+      const highRange = estimateRange({ ...inputs, [key]: high }, coefficients).estimatedRange;
+      return { key, low, high, lowRange, highRange, impact: Math.max(Math.abs(lowRange - base), Math.abs(highRange - base)) };
+    })
+    .filter((entry) => entry.low !== entry.high)
+    .sort((a, b) => b.impact - a.impact);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INPUTS, RangeInputs, estimateRange } from '@/lib/range-engine';
+
+const MODELS: RangeInputs['model'][] = ['Simple', 'Physics'];
+
+describe('estimateRange', () => {
+  it.each(MODELS)('loads the default inputs without clamping any factor (%s)', (model) => {
+    expect(estimateRange({ ...DEFAULT_INPUTS, model }).warnings).toEqual([]);
+  });
+
+  it.each(MODELS)('gives zero range but a finite efficiency at 0%% charge (%s)', (model) => {
+    const empty = estimateRange({ ...DEFAULT_INPUTS, model, currentCharge: 0 });
+    const full = estimateRange({ ...DEFAULT_INPUTS, model, currentCharge: 100 });
+
+    expect(empty.estimatedRange).toBe(0);
+    expect(empty.warnings).toEqual([]);
+    expect(Object.values(empty.factors).every(Number.isFinite)).toBe(true);
+    expect(empty.factors).toEqual(full.factors);
+    expect(empty.efficiency).toBeCloseTo(full.efficiency);
+    expect(empty.consumption).toBeCloseTo(full.consumption);
+  });
+
+  it.each(MODELS)('never loses range as a net descent gets steeper (%s)', (model) => {
+    const ranges = [0, 500, 1000, 2000, 3000, 4000, 8000].map((elevationLoss) =>
+      estimateRange({ ...DEFAULT_INPUTS, model, routeDistance: 10, elevationLoss })
+    );
+
+    ranges.slice(1).forEach((result, i) => {
+      expect(result.estimatedRange).toBeGreaterThanOrEqual(ranges[i].estimatedRange);
+      expect(result.factors.terrain).toBeGreaterThanOrEqual(1);
+      result.warnings.forEach((warning) => expect(warning.value).toBeGreaterThan(1));
+    });
+  });
+});
@@ -0,0 +1,387 @@
+export type HeaterType = 'Heat Pump' | 'Resistive';
+export type TerrainType = 'Flat' | 'Hilly' | 'Mountain';
+export type RangeModel = 'Simple' | 'Physics';
+
+export interface Factors {
+  temperature: number;
+  speed: number;
+  climate: number;
+  terrain: number;
+}
+
+export interface RangeInputs {
+  batteryCapacity: number;
+  epaRange: number;
+  currentCharge: number;
+  temperature: number;
+  avgSpeed: number;
+  /** Cabin temperature the climate control holds, in °F. */
+  cabinTemperature: number;
+  heaterType: HeaterType;
+  /** Length of the route the elevation figures describe, in miles. */
+  routeDistance: number;
+  /** Total climbing along the route, in ft. */
+  elevationGain: number;
+  /** Total descending along the route, in ft. */
+  elevationLoss: number;
+  /** Share of the potential energy on descents that regenerative braking puts back, in percent. */
+  regenEfficiency: number;
+  model: RangeModel;
+  /** Curb weight plus occupants, in kg. Physics model only. */
+  mass: number;
+  dragCoefficient: number;
+  /** Frontal area in m². Physics model only. */
+  frontalArea: number;
+  rollingResistance: number;
+  /** Battery-to-wheel efficiency, in percent. Physics model only. */
+  drivetrainEfficiency: number;
+  /** Constant accessory draw (electronics, pumps, lights), in kW. Physics model only. */
+  auxiliaryLoad: number;
+}
+
+export interface FactorWarning {
+  factor: keyof Factors;
+  /** Factor value the model produced before clamping. */
+  value: number;
+  bound: number;
+}
+
+export interface RangeResult {
+  /** Range with the current charge before any condition factors are applied. */
+  baseRange: number;
+  estimatedRange: number;
+  /** Miles per kWh under these conditions, whatever the current charge. */
+  efficiency: number;
+  /** Average consumption over the estimated range, in Wh per mile. */
+  consumption: number;
+  /** Estimated range as a fraction of the EPA rating. */
+  vsEpa: number;
+  /** Average cabin heating/cooling draw, in kW. */
+  hvacPower: number;
+  /** Energy the climate control uses over the estimated range, in kWh. */
+  hvacEnergy: number;
+  /** Energy spent climbing over the estimated range, in kWh. */
+  climbEnergy: number;
+  /** Energy regenerative braking recovers on descents over the estimated range, in kWh. */
+  regenEnergy: number;
+  factors: Factors;
+  /** Factors that fell outside the model's `factorBounds` and were clamped. */
+  warnings: FactorWarning[];
+}
+
+export const DEFAULT_INPUTS: RangeInputs = {
+  batteryCapacity: 75,
+  epaRange: 330,
+  currentCharge: 80,
+  temperature: 70,
+  avgSpeed: 65,
+  cabinTemperature: 70,
+  heaterType: 'Heat Pump',
+  routeDistance: 100,
+  elevationGain: 0,
+  elevationLoss: 0,
+  regenEfficiency: 60,
+  model: 'Simple',
+  mass: 2000,
+  dragCoefficient: 0.23,
+  frontalArea: 2.22,
+  rollingResistance: 0.01,
+  drivetrainEfficiency: 88,
+  auxiliaryLoad: 0.25,
+};
+
+export const OPTIMAL_TEMPERATURE = 70;
+export const TEMPERATURE_COEFFICIENT = 0.015;
+export const OPTIMAL_SPEED = 25;
+/**
+ * Fitted so the curve keeps at least half the range across every speed the
+ * inputs accept: about 80% of the rating at 65 mph and 55% at 85 mph.
+ */
+export const SPEED_COEFFICIENT = 0.000125;
+
+/** Typical elevation gain and loss per mile of route, in ft. */
+export const TERRAIN_PRESETS: Record<TerrainType, { gain: number; loss: number }> = {
+  Flat: { gain: 0, loss: 0 },
+  Hilly: { gain: 40, loss: 40 },
+  Mountain: { gain: 100, loss: 100 },
+};
+
+/**
+ * Plausible range for each factor. Outside these the model is being
+ * extrapolated past anything it describes (the simple curves, for one, turn
+ * negative with a steep enough calibrated coefficient), so the factor is
+ * clamped and the result carries a warning instead of a negative or runaway
+ * range.
+ * - temperature: real packs keep at least ~40% of their range in extreme cold.
+ * - speed: highway drag rarely costs more than 60%; crawling speeds can beat
+ *   the reference speed slightly in the physics model.
+ * - climate: HVAC can dominate consumption in slow traffic, but not by more than 5×.
+ * - terrain: sustained mountain climbs rarely cost more than half the range,
+ *   and even a long net descent rarely adds more than half again.
+ */
+export const FACTOR_BOUNDS: Record<keyof Factors, { min: number; max: number }> = {
+  temperature: { min: 0.4, max: 1 },
+  speed: { min: 0.4, max: 1.25 },
+  climate: { min: 0.2, max: 1 },
+  terrain: { min: 0.5, max: 1.5 },
+};
+
+/**
+ * The physics speed factor is a ratio of computed consumptions rather than a
+ * curve fit, so it only needs to stay positive and finite. These bounds hold
+ * for every vehicle and speed the inputs accept (roughly 0.1 for a brick at
+ * 85 mph to 4.8 for a light car crawling at 5 mph).
+ */
+export const PHYSICS_FACTOR_BOUNDS: Record<keyof Factors, { min: number; max: number }> = {
+  ...FACTOR_BOUNDS,
+  speed: { min: 0.1, max: 5 },
+};
+
+/** Factor bounds the given model clamps to. */
+export function factorBounds(model: RangeModel): Record<keyof Factors, { min: number; max: number }> {
+  return model === 'Physics' ? PHYSICS_FACTOR_BOUNDS : FACTOR_BOUNDS;
+}
+
+// Physics model constants (SI)
+export const AIR_DENSITY = 1.225;
+export const GRAVITY = 9.81;
+export const METERS_PER_MILE = 1609.344;
+export const MPH_TO_MPS = 0.44704;
+export const METERS_PER_FOOT = 0.3048;
+
+// HVAC model constants
+/** Heat the cabin gains or loses per °F between inside and outside, in kW. */
+export const CABIN_HEAT_TRANSFER = 0.08;
+/** Blower and control electronics, drawn whenever the car is on, in kW. */
+export const HVAC_BASE_LOAD = 0.2;
+export const COOLING_COP = 2.5;
+export const HEAT_PUMP_COP = 3;
+/** Outside temperature, in °F, below which a heat pump's COP starts to fall. */
+export const HEAT_PUMP_COP_REFERENCE = 50;
+/** COP a heat pump loses per °F below `HEAT_PUMP_COP_REFERENCE`. */
+export const HEAT_PUMP_COP_DROP = 0.04;
+
+// Battery temperature constants (physics model)
+/** Below this, in °F, the pack delivers less of its energy. */
+export const BATTERY_COLD_THRESHOLD = 50;
+/** Share of the pack's energy lost per °F below `BATTERY_COLD_THRESHOLD`. */
+export const BATTERY_COLD_LOSS = 0.005;
+/** Above this, in °F, the pack's thermal management costs energy. */
+export const BATTERY_HOT_THRESHOLD = 95;
+/** Share of the pack's energy lost per °F above `BATTERY_HOT_THRESHOLD`. */
+export const BATTERY_HOT_LOSS = 0.002;
+
+/**
+ * Coefficients that can be tuned per vehicle. The defaults describe a typical
+ * EV; a garage vehicle can carry its own set calibrated against how that car
+ * actually drives.
+ */
+export interface ModelCoefficients {
+  /** Share of range lost per °F away from the optimal temperature. Simple model only. */
+  temperature: number;
+  /** Share of range lost per mph² above the optimal speed. Simple model only. */
+  speed: number;
+  /** Cabin heat gained or lost per °F between inside and outside, in kW. */
+  cabinHeatTransfer: number;
+  /** Multiplier on the base range for how this particular car compares with the model. */
+  rangeScale: number;
+}
+
+export const DEFAULT_COEFFICIENTS: ModelCoefficients = {
+  temperature: TEMPERATURE_COEFFICIENT,
+  speed: SPEED_COEFFICIENT,
+  cabinHeatTransfer: CABIN_HEAT_TRANSFER,
+  rangeScale: 1,
+};
+
+export function temperatureFactor(temperature: number, coefficient = TEMPERATURE_COEFFICIENT): number {
+  return 1 - (Math.abs(temperature - OPTIMAL_TEMPERATURE) * coefficient);
+}
+
+export function speedFactor(avgSpeed: number, coefficient = SPEED_COEFFICIENT): number {
+  return 1 - (Math.pow(Math.max(0, avgSpeed - OPTIMAL_SPEED), 2) * coefficient);
+}
+
+/**
+ * Heat pump coefficient of performance. It falls as the outside air gets
+ * colder and has less heat to extract, bottoming out at resistive heating.
+ */
+export function heatPumpCop(temperature: number): number {
+  return Math.max(1, HEAT_PUMP_COP - (Math.max(0, HEAT_PUMP_COP_REFERENCE - temperature) * HEAT_PUMP_COP_DROP));
+}
+
+/** Electrical power the climate control draws to hold the cabin temperature, in kW. */
+export function hvacPower(inputs: RangeInputs, heatTransfer = CABIN_HEAT_TRANSFER): number {
+  const difference = inputs.cabinTemperature - inputs.temperature;
+  const thermalLoad = Math.abs(difference) * heatTransfer;
+
+  if (difference <= 0) {
+    return HVAC_BASE_LOAD + thermalLoad / COOLING_COP;
+  }
+  const cop = inputs.heaterType === 'Heat Pump' ? heatPumpCop(inputs.temperature) : 1;
+  return HVAC_BASE_LOAD + thermalLoad / cop;
+}
+
+/**
+ * Potential energy per mile of route spent climbing (drawn through the
+ * drivetrain) and recovered on descents (returned through regen), in Wh.
+ */
+export function terrainEnergy(inputs: RangeInputs): { climb: number; regen: number } {
+  const weight = inputs.mass * GRAVITY;
+  const gainPerMile = (inputs.elevationGain * METERS_PER_FOOT) / inputs.routeDistance;
+  const lossPerMile = (inputs.elevationLoss * METERS_PER_FOOT) / inputs.routeDistance;
+
+  return {
+    climb: (weight * gainPerMile / 3600) / (inputs.drivetrainEfficiency / 100),
+    regen: (weight * lossPerMile / 3600) * (inputs.regenEfficiency / 100),
+  };
+}
+
+/**
+ * Share of the battery's energy that is available at the given temperature.
+ * Unlike `temperatureFactor`, this excludes cabin climate control, which the
+ * physics model accounts for separately.
+ */
+export function batteryTemperatureFactor(temperature: number): number {
+  return 1
+    - (Math.max(0, BATTERY_COLD_THRESHOLD - temperature) * BATTERY_COLD_LOSS)
+    - (Math.max(0, temperature - BATTERY_HOT_THRESHOLD) * BATTERY_HOT_LOSS);
+}
+
+/** Energy needed at the wheels plus accessories to cover one mile at a steady speed, in Wh. */
+export function drivingConsumption(inputs: RangeInputs, avgSpeed: number): number {
+  const speed = avgSpeed * MPH_TO_MPS;
+  const aeroForce = 0.5 * AIR_DENSITY * inputs.dragCoefficient * inputs.frontalArea * speed * speed;
+  const rollingForce = inputs.rollingResistance * inputs.mass * GRAVITY;
+  const wheelWh = (aeroForce + rollingForce) * METERS_PER_MILE / 3600;
+  return wheelWh / (inputs.drivetrainEfficiency / 100) + (inputs.auxiliaryLoad * 1000) / avgSpeed;
+}
+
+function bounded(
+  factor: keyof Factors,
+  value: number,
+  warnings: FactorWarning[],
+  bounds: Record<keyof Factors, { min: number; max: number }> = FACTOR_BOUNDS
+): number {
+  const { min, max } = bounds[factor];
+  if (value >= min && value <= max) {
+    return value;
+  }
+  const bound = Math.min(max, Math.max(min, value));
+  warnings.push({ factor, value, bound });
+  return bound;
+}
+
+/** Most of the flat-road and climate consumption regen on a net descent can offset. */
+export const MAX_REGEN_SHARE = 0.9;
+
+/**
+ * Climate and terrain factors layered on top of the per-mile consumption of
+ * driving on the flat. HVAC power is spread over the time spent covering each
+ * mile (1 / avgSpeed hours), so the same kW hurts slow trips far more than
+ * highway ones. Terrain adds the net of climbing and regen, so a route that
+ * descends overall gives a factor above 1. Regen can't pay for more than
+ * `MAX_REGEN_SHARE` of the rest of the consumption, which keeps the factor
+ * rising steadily with descent instead of flipping sign once regen outweighs
+ * everything else.
+ */
+function loadFactors(
+  inputs: RangeInputs,
+  coefficients: ModelCoefficients,
+  drivingWhPerMile: number
+): { climate: number; terrain: number } {
+  const climateWhPerMile = (hvacPower(inputs, coefficients.cabinHeatTransfer) * 1000) / inputs.avgSpeed;
+  const { climb, regen } = terrainEnergy(inputs);
+  const withClimate = drivingWhPerMile + climateWhPerMile;
+
+  return {
+    climate: drivingWhPerMile / withClimate,
+    terrain: withClimate / Math.max(withClimate + climb - regen, withClimate * (1 - MAX_REGEN_SHARE)),
+  };
+}
+
+/**
+ * Derived metrics for a range estimate. `fullRange` is the range from a full
+ * battery before any factors, so efficiency and consumption stay defined, and
+ * the same, whatever the current charge, including 0%.
+ */
+function summarize(
+  inputs: RangeInputs,
+  coefficients: ModelCoefficients,
+  fullRange: number,
+  factors: Factors,
+  warnings: FactorWarning[]
+): RangeResult {
+  const baseRange = fullRange * (inputs.currentCharge / 100);
+  const estimatedRange = baseRange * factors.temperature * factors.speed * factors.climate * factors.terrain;
+  const rangePerCharge = fullRange * factors.temperature * factors.speed * factors.climate * factors.terrain;
+  const efficiency = inputs.batteryCapacity ? rangePerCharge / inputs.batteryCapacity : 0;
+  const consumption = rangePerCharge ? (inputs.batteryCapacity * 1000) / rangePerCharge : 0;
+  const vsEpa = inputs.epaRange ? estimatedRange / inputs.epaRange : 0;
+  const power = hvacPower(inputs, coefficients.cabinHeatTransfer);
+  const hvacEnergy = power * (estimatedRange / inputs.avgSpeed);
+  const { climb, regen } = terrainEnergy(inputs);
+  const climbEnergy = (climb * estimatedRange) / 1000;
+  const regenEnergy = (regen * estimatedRange) / 1000;
+
+  return {
+    baseRange,
+    estimatedRange,
+    efficiency,
+    consumption,
+    vsEpa,
+    hvacPower: power,
+    hvacEnergy,
+    climbEnergy,
+    regenEnergy,
+    factors,
+    warnings,
+  };
+}
+
+function estimateSimpleRange(inputs: RangeInputs, coefficients: ModelCoefficients): RangeResult {
+  const warnings: FactorWarning[] = [];
+  const fullRange = inputs.epaRange * coefficients.rangeScale;
+  const temperature = bounded('temperature', temperatureFactor(inputs.temperature, coefficients.temperature), warnings);
+  const speed = bounded('speed', speedFactor(inputs.avgSpeed, coefficients.speed), warnings);
+  // Per-mile driving consumption implied by the rating, which doesn't depend on how full the battery is.
+  const loads = loadFactors(inputs, coefficients, (inputs.batteryCapacity * 1000) / (fullRange * temperature * speed));
+  const climate = bounded('climate', loads.climate, warnings);
+  const terrain = bounded('terrain', loads.terrain, warnings);
+
+  return summarize(inputs, coefficients, fullRange, { temperature, speed, climate, terrain }, warnings);
+}
+
+/**
+ * Builds consumption up from road load: aero drag and rolling resistance
+ * through the drivetrain, accessory and HVAC power over the time it takes to
+ * cover a mile, and climbing net of regen. Each factor is the ratio of consumption without
+ * and with that contribution, so they multiply out to the final range just
+ * like the simple model's.
+ */
+function estimatePhysicsRange(inputs: RangeInputs, coefficients: ModelCoefficients): RangeResult {
+  const warnings: FactorWarning[] = [];
+  const referenceWh = drivingConsumption(inputs, OPTIMAL_SPEED);
+  const drivingWh = drivingConsumption(inputs, inputs.avgSpeed);
+  const loads = loadFactors(inputs, coefficients, drivingWh);
+
+  const factors: Factors = {
+    temperature: bounded('temperature', batteryTemperatureFactor(inputs.temperature), warnings),
+    speed: bounded('speed', referenceWh / drivingWh, warnings, PHYSICS_FACTOR_BOUNDS),
+    climate: bounded('climate', loads.climate, warnings),
+    terrain: bounded('terrain', loads.terrain, warnings),
+  };
+
+  return summarize(inputs, coefficients, ((inputs.batteryCapacity * 1000) / referenceWh) * coefficients.rangeScale, factors, warnings);
+}
+
+/**
+ * Estimates range for inputs that satisfy `rangeInputsSchema`. Factors are
+ * clamped to the model's `factorBounds`; check `warnings` before trusting the
+ * result.
+ */
+export function estimateRange(inputs: RangeInputs, coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS): RangeResult {
+  return inputs.model === 'Physics'
+    ? estimatePhysicsRange(inputs, coefficients)
+    : estimateSimpleRange(inputs, coefficients);
+}
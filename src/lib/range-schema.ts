@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type { ModelCoefficients, RangeInputs } from '@/lib/range-engine';
+import { Quantity, UnitSystem, roundForDisplay, toDisplay, unitLabel } from '@/lib/units';
+
+export type NumericInputKey = {
+  [K in keyof RangeInputs]: RangeInputs[K] extends number ? K : never;
+}[keyof RangeInputs];
+
+export interface InputBounds {
+  min: number;
+  max: number;
+  step: number;
+  /** Unit for inputs that read the same in every unit system. */
+  unit?: string;
+  /** Quantity for inputs that are converted to the user's unit system. */
+  quantity?: Quantity;
+}
+
+/**
+ * Accepted range for every numeric estimator input, in the engine's canonical
+ * units, shared by the schema and the input controls.
+ */
+export const INPUT_BOUNDS: Record<NumericInputKey, InputBounds> = {
+  batteryCapacity: { min: 10, max: 200, step: 1, unit: 'kWh' },
+  epaRange: { min: 50, max: 600, step: 1, quantity: 'distance' },
+  currentCharge: { min: 0, max: 100, step: 1, unit: '%' },
+  temperature: { min: -20, max: 120, step: 1, quantity: 'temperature' },
+  avgSpeed: { min: 5, max: 85, step: 1, quantity: 'speed' },
+  cabinTemperature: { min: 60, max: 80, step: 1, quantity: 'temperature' },
+  routeDistance: { min: 1, max: 1000, step: 1, quantity: 'distance' },
+  elevationGain: { min: 0, max: 50000, step: 10, quantity: 'elevation' },
+  elevationLoss: { min: 0, max: 50000, step: 10, quantity: 'elevation' },
+  regenEfficiency: { min: 0, max: 90, step: 1, unit: '%' },
+  mass: { min: 800, max: 4000, step: 10, quantity: 'mass' },
+  dragCoefficient: { min: 0.15, max: 0.6, step: 0.01 },
+  frontalArea: { min: 1.5, max: 4, step: 0.01, unit: 'm²' },
+  rollingResistance: { min: 0.005, max: 0.02, step: 0.001 },
+  drivetrainEfficiency: { min: 60, max: 98, step: 1, unit: '%' },
+  auxiliaryLoad: { min: 0, max: 2, step: 0.05, unit: 'kW' },
+};
+
+export function inputUnit(key: NumericInputKey, system: UnitSystem): string {
+  const { unit, quantity } = INPUT_BOUNDS[key];
+  return quantity ? unitLabel(quantity, system) : unit ?? '';
+}
+
+/** Short name of every numeric input, for places that list inputs generically. */
+export const INPUT_LABELS: Record<NumericInputKey, string> = {
+  batteryCapacity: 'Battery capacity',
+  epaRange: 'EPA range',
+  currentCharge: 'Charge',
+  temperature: 'Temperature',
+  avgSpeed: 'Speed',
+  cabinTemperature: 'Cabin temperature',
+  routeDistance: 'Route distance',
+  elevationGain: 'Elevation gain',
+  elevationLoss: 'Elevation loss',
+  regenEfficiency: 'Regen efficiency',
+  mass: 'Mass',
+  dragCoefficient: 'Drag coefficient',
+  frontalArea: 'Frontal area',
+  rollingResistance: 'Rolling resistance',
+  drivetrainEfficiency: 'Drivetrain efficiency',
+  auxiliaryLoad: 'Accessory load',
+};
+
+/** Bounds of an input converted into the given unit system for display. */
+export function displayBounds(key: NumericInputKey, system: UnitSystem): { min: number; max: number; step: number } {
+  const { min, max, step, quantity } = INPUT_BOUNDS[key];
+  if (!quantity) {
+    return { min, max, step };
+  }
+  return {
+    min: roundForDisplay(toDisplay(quantity, min, system)),
+    max: roundForDisplay(toDisplay(quantity, max, system)),
+    step,
+  };
+}
+
+function boundedNumber(key: NumericInputKey, system: UnitSystem) {
+  const { min, max } = INPUT_BOUNDS[key];
+  const display = displayBounds(key, system);
+  const unit = inputUnit(key, system);
+  const suffix = unit ? ` ${unit}` : '';
+  return z
+    .number({ required_error: 'Enter a number', invalid_type_error: 'Enter a number' })
+    .min(min, `Must be at least ${display.min}${suffix}`)
+    .max(max, `Must be at most ${display.max}${suffix}`);
+}
+
+export function buildRangeInputsObject(system: UnitSystem) {
+  return z.object({
+    batteryCapacity: boundedNumber('batteryCapacity', system),
+    epaRange: boundedNumber('epaRange', system),
+    currentCharge: boundedNumber('currentCharge', system),
+    temperature: boundedNumber('temperature', system),
+    avgSpeed: boundedNumber('avgSpeed', system),
+    cabinTemperature: boundedNumber('cabinTemperature', system),
+    heaterType: z.enum(['Heat Pump', 'Resistive']),
+    routeDistance: boundedNumber('routeDistance', system),
+    elevationGain: boundedNumber('elevationGain', system),
+    elevationLoss: boundedNumber('elevationLoss', system),
+    regenEfficiency: boundedNumber('regenEfficiency', system),
+    model: z.enum(['Simple', 'Physics']),
+    mass: boundedNumber('mass', system),
+    dragCoefficient: boundedNumber('dragCoefficient', system),
+    frontalArea: boundedNumber('frontalArea', system),
+    rollingResistance: boundedNumber('rollingResistance', system),
+    drivetrainEfficiency: boundedNumber('drivetrainEfficiency', system),
+    auxiliaryLoad: boundedNumber('auxiliaryLoad', system),
+  });
+}
+
+/**
+ * Validates canonical inputs; only the error messages depend on the unit
+ * system, so they quote bounds in the units the user is typing in.
+ * With strictNullChecks off zod infers every key as optional, so the schema is
+ * typed against RangeInputs explicitly.
+ */
+export function buildRangeInputsSchema(system: UnitSystem): z.ZodType<RangeInputs> {
+  return buildRangeInputsObject(system) as z.ZodType<RangeInputs>;
+}
+
+export const rangeInputsSchema = buildRangeInputsSchema('imperial');
+
+/** Bounds that keep calibrated coefficients within a factor of a few of the defaults. */
+export const COEFFICIENT_BOUNDS: Record<keyof ModelCoefficients, { min: number; max: number }> = {
+  temperature: { min: 0, max: 0.045 },
+  speed: { min: 0, max: 0.000375 },
+  cabinHeatTransfer: { min: 0.02, max: 0.24 },
+  rangeScale: { min: 0.5, max: 1.5 },
+};
+
+function boundedCoefficient(key: keyof ModelCoefficients) {
+  const { min, max } = COEFFICIENT_BOUNDS[key];
+  return z
+    .number({ required_error: 'Enter a number', invalid_type_error: 'Enter a number' })
+    .min(min, `Must be at least ${min}`)
+    .max(max, `Must be at most ${max}`);
+}
+
+export const modelCoefficientsSchema = z.object({
+  temperature: boundedCoefficient('temperature'),
+  speed: boundedCoefficient('speed'),
+  cabinHeatTransfer: boundedCoefficient('cabinHeatTransfer'),
+  rangeScale: boundedCoefficient('rangeScale'),
+}) as z.ZodType<ModelCoefficients>;
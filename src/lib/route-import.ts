@@ -0,0 +1,173 @@
+import { METERS_PER_FOOT, METERS_PER_MILE } from '@/lib/range-engine';
+
+// GPX and KML files are read entirely in the browser. Points are turned into a
+// distance/elevation profile, resampled into fixed-length segments so the
+// grades aren't dominated by GPS jitter between closely spaced points, and
+// the rise and fall of those segments become the estimate's elevation gain
+// and loss.
+
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+  /** Metres above sea level, when the file records it. */
+  elevation?: number;
+}
+
+export interface RouteTrack {
+  name?: string;
+  points: RoutePoint[];
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Great-circle distance between two points, in miles. */
+function haversine(a: RoutePoint, b: RoutePoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Elements by local name, so namespaced files (`gx:coord`, default GPX namespaces) match too. */
+const elements = (root: Document | Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+
+function parseGpx(doc: Document): RouteTrack {
+  // A recorded track is the road actually driven; a planned route or bare waypoints are the fallback.
+  const tagged = ['trkpt', 'rtept', 'wpt'].map((name) => elements(doc, name)).find((found) => found.length > 0) ?? [];
+  const points = tagged.map((point) => {
+    const elevation = elements(point, 'ele')[0]?.textContent;
+    return {
+      lat: Number(point.getAttribute('lat')),
+      lon: Number(point.getAttribute('lon')),
+      elevation: elevation ? Number(elevation) : undefined,
+    };
+  });
+  const name = elements(doc, 'name')[0]?.textContent?.trim();
+  return { name: name || undefined, points };
+}
+
+function parseKml(doc: Document): RouteTrack {
+  // Google Earth tracks keep their points in `gx:coord` as "lon lat alt"; everything else uses `coordinates` as "lon,lat,alt".
+  const trackPoints = elements(doc, 'coord').map((coord) => coord.textContent.trim().split(/\s+/).map(Number));
+  const linePoints = elements(doc, 'LineString')
+    .flatMap((line) => elements(line, 'coordinates'))
+    .flatMap((coordinates) => coordinates.textContent.trim().split(/\s+/).filter(Boolean).map((tuple) => tuple.split(',').map(Number)));
+  const tuples = trackPoints.length > 0 ? trackPoints : linePoints;
+  const points = tuples.map(([lon, lat, elevation]) => ({ lat, lon, elevation: isNaN(elevation) ? undefined : elevation }));
+  const name = elements(doc, 'name')[0]?.textContent?.trim();
+  return { name: name || undefined, points };
+}
+
+/** Reads the points of a GPX or KML file; throws with a readable message when there is no route in it. */
+export function parseRouteFile(text: string): RouteTrack {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid GPX or KML');
+  }
+  const root = doc.documentElement.localName;
+  if (root !== 'gpx' && root !== 'kml') {
+    throw new Error('Choose a GPX or KML file');
+  }
+  const track = root === 'gpx' ? parseGpx(doc) : parseKml(doc);
+  const points = track.points.filter((point) => !isNaN(point.lat) && !isNaN(point.lon));
+  if (points.length < 2) {
+    throw new Error('The file has no route with at least two points');
+  }
+  return { ...track, points };
+}
+
+/** Length of the segments grades are measured over, in miles; about 400 m. */
+export const SEGMENT_LENGTH = 0.25;
+
+export interface RouteSegment {
+  /** Distance along the route where the segment starts, in miles. */
+  start: number;
+  length: number;
+  /** Elevation at the segment's end, in ft. */
+  elevation: number;
+  /** Rise over run, in %; negative downhill. */
+  grade: number;
+}
+
+export interface RouteProfile {
+  name?: string;
+  /** Miles along the route. */
+  distance: number;
+  /** Total climbing and descending, in ft; zero when the file has no elevations. */
+  elevationGain: number;
+  elevationLoss: number;
+  hasElevation: boolean;
+  segments: RouteSegment[];
+}
+
+/**
+ * Distance, elevation gain and loss, and per-segment grades of a track, in the
+ * engine's units. Elevations are interpolated along the route at every
+ * `SEGMENT_LENGTH` and the gain and loss summed over those segments; points
+ * without an elevation are skipped.
+ */
+export function routeProfile(track: RouteTrack): RouteProfile {
+  const { points } = track;
+  const along = [0];
+  for (let i = 1; i < points.length; i++) {
+    along.push(along[i - 1] + haversine(points[i - 1], points[i]));
+  }
+  const distance = along[along.length - 1];
+
+  const profile = points
+    .map((point, i) => ({ at: along[i], elevation: point.elevation }))
+    .filter((sample): sample is { at: number; elevation: number } => sample.elevation !== undefined && !isNaN(sample.elevation));
+  if (profile.length < 2) {
+    return { name: track.name, distance, elevationGain: 0, elevationLoss: 0, hasElevation: false, segments: [] };
+  }
+
+  // Elevation in ft at a distance along the route, held flat beyond the first and last sample.
+  let cursor = 0;
+  const elevationAt = (at: number): number => {
+    while (cursor < profile.length - 2 && profile[cursor + 1].at < at) {
+      cursor++;
+    }
+    const a = profile[cursor];
+    const b = profile[cursor + 1];
+    const t = b.at > a.at ? Math.min(1, Math.max(0, (at - a.at) / (b.at - a.at))) : 1;
+    return (a.elevation + (b.elevation - a.elevation) * t) / METERS_PER_FOOT;
+  };
+
+  const segments: RouteSegment[] = [];
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  let previous = elevationAt(0);
+  for (let start = 0; start < distance; start += SEGMENT_LENGTH) {
+    const length = Math.min(SEGMENT_LENGTH, distance - start);
+    const elevation = elevationAt(start + length);
+    const rise = elevation - previous;
+    if (rise > 0) {
+      elevationGain += rise;
+    } else {
+      elevationLoss -= rise;
+    }
+    segments.push({ start, length, elevation, grade: length > 0 ? (rise / (length * METERS_PER_MILE / METERS_PER_FOOT)) * 100 : 0 });
+    previous = elevation;
+  }
+
+  return { name: track.name, distance, elevationGain, elevationLoss, hasElevation: true, segments };
+}
+
+export interface RouteVerdict {
+  makesIt: boolean;
+  /** Battery left on arrival, in %; negative when the charge runs out first. */
+  spare: number;
+  /** Estimated range left on arrival, in miles; negative for how far short the car stops. */
+  margin: number;
+}
+
+/** Whether an estimated range from `currentCharge` covers the route, and with how much to spare. */
+export function routeVerdict(distance: number, estimatedRange: number, currentCharge: number): RouteVerdict {
+  const margin = estimatedRange - distance;
+  return {
+    makesIt: margin >= 0,
+    spare: estimatedRange > 0 ? currentCharge * (margin / estimatedRange) : -currentCharge,
+    margin,
+  };
+}
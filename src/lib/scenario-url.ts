@@ -0,0 +1,97 @@
+import { HeaterType, RangeInputs, RangeModel } from '@/lib/range-engine';
+import { buildRangeInputsObject } from '@/lib/range-schema';
+
+/**
+ * Version of the query-string format. Links carry it as `v`; bump it only if
+ * an existing parameter changes meaning, and teach decodeScenario to read the
+ * old version, so links already pasted into chats keep working.
+ */
+export const SCENARIO_URL_VERSION = 1;
+
+const VERSION_PARAM = 'v';
+
+/**
+ * Query parameter for every input. Typed against RangeInputs so a new input
+ * cannot be added without giving it a parameter. Never rename or reuse one.
+ */
+const PARAM_NAMES: Record<keyof RangeInputs, string> = {
+  batteryCapacity: 'kwh',
+  epaRange: 'epa',
+  currentCharge: 'soc',
+  temperature: 'temp',
+  avgSpeed: 'spd',
+  cabinTemperature: 'cabin',
+  heaterType: 'heat',
+  routeDistance: 'dist',
+  elevationGain: 'gain',
+  elevationLoss: 'loss',
+  regenEfficiency: 'regen',
+  model: 'model',
+  mass: 'mass',
+  dragCoefficient: 'cd',
+  frontalArea: 'area',
+  rollingResistance: 'crr',
+  drivetrainEfficiency: 'eta',
+  auxiliaryLoad: 'aux',
+};
+
+const HEATER_CODES: Record<HeaterType, string> = { 'Heat Pump': 'hp', Resistive: 'res' };
+const MODEL_CODES: Record<RangeModel, string> = { Simple: 'simple', Physics: 'physics' };
+
+// Links store canonical units, so they open the same scenario in either unit system.
+const inputShape = buildRangeInputsObject('imperial').shape;
+
+function encodeValue(key: keyof RangeInputs, value: RangeInputs[keyof RangeInputs]): string {
+  if (key === 'heaterType') {
+    return HEATER_CODES[value as HeaterType];
+  }
+  if (key === 'model') {
+    return MODEL_CODES[value as RangeModel];
+  }
+  return String(value);
+}
+
+function decodeValue(key: keyof RangeInputs, raw: string): unknown {
+  if (key === 'heaterType') {
+    return Object.keys(HEATER_CODES).find((heater) => HEATER_CODES[heater as HeaterType] === raw);
+  }
+  if (key === 'model') {
+    return Object.keys(MODEL_CODES).find((model) => MODEL_CODES[model as RangeModel] === raw);
+  }
+  return raw.trim() === '' ? NaN : Number(raw);
+}
+
+export function encodeScenario(inputs: RangeInputs): URLSearchParams {
+  const params = new URLSearchParams({ [VERSION_PARAM]: String(SCENARIO_URL_VERSION) });
+  (Object.keys(PARAM_NAMES) as (keyof RangeInputs)[]).forEach((key) => {
+    params.set(PARAM_NAMES[key], encodeValue(key, inputs[key]));
+  });
+  return params;
+}
+
+/**
+ * Reads the inputs a link carries. Parameters that are missing or fail
+ * validation are left out so the caller's defaults fill them in; links without
+ * a recognised version yield nothing.
+ */
+export function decodeScenario(params: URLSearchParams): Partial<RangeInputs> {
+  if (params.get(VERSION_PARAM) !== String(SCENARIO_URL_VERSION)) {
+    return {};
+  }
+  const inputs: Partial<RangeInputs> = {};
+  (Object.keys(PARAM_NAMES) as (keyof RangeInputs)[]).forEach((key) => {
+    const raw = params.get(PARAM_NAMES[key]);
+    if (raw === null) {
+      return;
+    }
+    const parsed = inputShape[key].safeParse(decodeValue(key, raw));
+    if (parsed.success) {
+      (inputs as Record<string, unknown>)[key] = parsed.data;
+    }
+  });
+  return inputs;
+}
+
+export function hasScenario(params: URLSearchParams): boolean {
+  return params.has(VERSION_PARAM);
+}
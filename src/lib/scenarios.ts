@@ -0,0 +1,45 @@
+import type { RangeInputs, RangeResult } from '@/lib/range-engine';
+import { createId } from '@/lib/storage';
+
+/** Headline results stored with a scenario so the library can list them without re-estimating. */
+export type ScenarioResults = Pick<RangeResult, 'estimatedRange' | 'efficiency' | 'vsEpa'>;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: RangeInputs;
+  results: ScenarioResults;
+  /** Garage vehicle the scenario was saved with, if any. */
+  vehicleName?: string;
+  /** Epoch milliseconds of the last save or rename. */
+  updatedAt: number;
+}
+
+export function createScenario(name: string, inputs: RangeInputs, result: RangeResult, vehicleName?: string): Scenario {
+  return {
+    id: createId(),
+    name: name.trim(),
+    inputs,
+    results: { estimatedRange: result.estimatedRange, efficiency: result.efficiency, vsEpa: result.vsEpa },
+    vehicleName,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Copy saved under the next free "(copy)" name. */
+export function copyScenario(scenario: Scenario, existing: Scenario[]): Scenario {
+  const names = new Set(existing.map((candidate) => candidate.name));
+  let name = `${scenario.name} (copy)`;
+  for (let n = 2; names.has(name); n++) {
+    name = `${scenario.name} (copy ${n})`;
+  }
+  return { ...scenario, id: createId(), name, updatedAt: Date.now() };
+}
+
+/** Case-insensitive match on the scenario or vehicle name. */
+export function matchesQuery(scenario: Scenario, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return needle === '' ||
+    scenario.name.toLowerCase().includes(needle) ||
+    (scenario.vehicleName?.toLowerCase().includes(needle) ?? false);
+}
@@ -0,0 +1,27 @@
+const PREFIX = 'ev-range-compass:';
+
+/** Reads a JSON value from localStorage, falling back when it is missing, corrupt or storage is unavailable. */
+export function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStorage<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private browsing); the in-memory state still works.
+  }
+}
+
+/** Random identifier for locally stored records; falls back when crypto.randomUUID needs a secure context. */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import type { ChargeSession } from '@/lib/charging';
+import { createId } from '@/lib/storage';
+
+export type TariffKind = 'flat' | 'tou' | 'dcfc';
+
+/** A stretch of the day with its own price. Times are minutes after midnight; an end before the start wraps past midnight. */
+export interface TouWindow {
+  start: number;
+  end: number;
+  /** Price, in $ per kWh. */
+  rate: number;
+}
+
+interface TariffBase {
+  id: string;
+  name: string;
+}
+
+export interface FlatTariff extends TariffBase {
+  kind: 'flat';
+  /** Price, in $ per kWh. */
+  rate: number;
+}
+
+export interface TouTariff extends TariffBase {
+  kind: 'tou';
+  /** Price outside every window, in $ per kWh. */
+  rate: number;
+  windows: TouWindow[];
+}
+
+export interface FastChargeTariff extends TariffBase {
+  kind: 'dcfc';
+  per: 'kWh' | 'minute';
+  /** Price, in $ per kWh or per minute plugged in. */
+  rate: number;
+  /** Charged once per session, in $. */
+  sessionFee: number;
+}
+
+export type Tariff = FlatTariff | TouTariff | FastChargeTariff;
+
+export const TARIFF_KINDS: Record<TariffKind, string> = {
+  flat: 'Flat rate',
+  tou: 'Time of use',
+  dcfc: 'DC fast charging',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const rateSchema = z.number({ invalid_type_error: 'Enter a price' }).min(0, 'Must be 0 or more').max(10, 'Must be at most $10');
+const timeSchema = z.number({ invalid_type_error: 'Enter a time' }).int().min(0).max(MINUTES_PER_DAY - 1);
+const nameSchema = z.string().trim().min(1, 'Enter a name').max(60, 'Keep the name under 60 characters');
+
+export const tariffSchema = z.discriminatedUnion('kind', [
+  z.object({ id: z.string().min(1), name: nameSchema, kind: z.literal('flat'), rate: rateSchema }),
+  z.object({
+    id: z.string().min(1),
+    name: nameSchema,
+    kind: z.literal('tou'),
+    rate: rateSchema,
+    windows: z.array(z.object({ start: timeSchema, end: timeSchema, rate: rateSchema })),
+  }),
+  z.object({
+    id: z.string().min(1),
+    name: nameSchema,
+    kind: z.literal('dcfc'),
+    per: z.enum(['kWh', 'minute']),
+    rate: rateSchema,
+    sessionFee: z.number({ invalid_type_error: 'Enter a fee' }).min(0, 'Must be 0 or more').max(50, 'Must be at most $50'),
+  }),
+]) as z.ZodType<Tariff>;
+
+/** A new tariff of the given kind with typical US prices, keeping the id and name when switching kinds. */
+export function createTariff(kind: TariffKind, name: string, id = createId()): Tariff {
+  switch (kind) {
+    case 'flat':
+      return { id, name, kind, rate: 0.16 };
+    case 'tou':
+      return { id, name, kind, rate: 0.32, windows: [{ start: 23 * 60, end: 7 * 60, rate: 0.11 }] };
+    case 'dcfc':
+      return { id, name, kind, per: 'kWh', rate: 0.48, sessionFee: 0 };
+  }
+}
+
+/** "HH:MM" for a number of minutes after midnight, wrapping past a day; empty when it is not a number. */
+export function formatTimeOfDay(minutes: number): string {
+  if (!Number.isFinite(minutes)) {
+    return '';
+  }
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/** Minutes after midnight for an "HH:MM" string, or NaN when it is not a time. */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return NaN;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function inWindow(window: TouWindow, minuteOfDay: number): boolean {
+  return window.start <= window.end
+    ? minuteOfDay >= window.start && minuteOfDay < window.end
+    : minuteOfDay >= window.start || minuteOfDay < window.end;
+}
+
+/** $ per kWh at a time of day; the first matching window wins. */
+export function rateAt(tariff: TouTariff, minuteOfDay: number): number {
+  const minute = ((minuteOfDay % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return tariff.windows.find((window) => inWindow(window, minute))?.rate ?? tariff.rate;
+}
+
+/**
+ * Cost, in $, of a charging session starting `start` minutes after midnight.
+ * Energy prices apply to what is drawn from the grid, which is the energy
+ * stored divided by the charger's `efficiency`.
+ */
+export function sessionCost(tariff: Tariff, session: ChargeSession, efficiency: number, start: number): number {
+  switch (tariff.kind) {
+    case 'flat':
+      return (session.energyAdded / efficiency) * tariff.rate;
+    case 'tou':
+      return session.steps.reduce(
+        (total, step) => total + (step.energy / efficiency) * rateAt(tariff, start + step.start + step.minutes / 2),
+        0,
+      );
+    case 'dcfc':
+      return tariff.sessionFee
+        + (tariff.per === 'minute' ? session.minutes : session.energyAdded / efficiency) * tariff.rate;
+  }
+}
+
+/** Start times are tried on this grid, in minutes. */
+const START_STEP = 15;
+
+/**
+ * The start time between `earliest` and `deadline` (minutes after midnight;
+ * a deadline at or before `earliest` means the next day) that finishes by the
+ * deadline at the lowest cost. Ties go to the earliest start. Undefined when
+ * the session does not fit.
+ */
+export function cheapestStart(
+  tariff: Tariff,
+  session: ChargeSession,
+  efficiency: number,
+  earliest: number,
+  deadline: number,
+): { start: number; cost: number } | undefined {
+  const end = deadline > earliest ? deadline : deadline + MINUTES_PER_DAY;
+  let best: { start: number; cost: number } | undefined;
+  for (let start = earliest; start + session.minutes <= end; start += START_STEP) {
+    const cost = sessionCost(tariff, session, efficiency, start);
+    if (!best || cost < best.cost - 1e-9) {
+      best = { start, cost };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { DEFAULT_COEFFICIENTS, ModelCoefficients, RangeInputs, estimateRange } from '@/lib/range-engine';
+import { buildRangeInputsObject } from '@/lib/range-schema';
+import { createId } from '@/lib/storage';
+import type { UnitSystem } from '@/lib/units';
+
+/** One stretch of a trip driven under roughly uniform conditions. Canonical units throughout. */
+export interface TripLeg {
+  id: string;
+  name: string;
+  distance: number;
+  avgSpeed: number;
+  temperature: number;
+  cabinTemperature: number;
+  elevationGain: number;
+  elevationLoss: number;
+}
+
+export type TripLegField = Exclude<keyof TripLeg, 'id' | 'name'>;
+
+/** Validates a leg with the same bounds, and messages, as the matching estimator inputs. */
+export function buildTripLegSchema(system: UnitSystem): z.ZodType<TripLeg> {
+  const shape = buildRangeInputsObject(system).shape;
+  return z.object({
+    id: z.string(),
+    name: z.string().trim().min(1, 'Enter a name').max(60, 'Keep the name under 60 characters'),
+    distance: shape.routeDistance,
+    avgSpeed: shape.avgSpeed,
+    temperature: shape.temperature,
+    cabinTemperature: shape.cabinTemperature,
+    elevationGain: shape.elevationGain,
+    elevationLoss: shape.elevationLoss,
+  }) as z.ZodType<TripLeg>;
+}
+
+export function createTripLeg(name: string, values: Omit<TripLeg, 'id' | 'name'>): TripLeg {
+  return { id: createId(), name, ...values };
+}
+
+export const DEFAULT_TRIP_LEGS: Omit<TripLeg, 'id'>[] = [
+  { name: 'City', distance: 12, avgSpeed: 28, temperature: 45, cabinTemperature: 70, elevationGain: 100, elevationLoss: 100 },
+  { name: 'Highway', distance: 140, avgSpeed: 70, temperature: 50, cabinTemperature: 70, elevationGain: 1200, elevationLoss: 900 },
+  { name: 'Mountain pass', distance: 45, avgSpeed: 45, temperature: 30, cabinTemperature: 70, elevationGain: 4500, elevationLoss: 2500 },
+];
+
+export interface LegPlan {
+  leg: TripLeg;
+  /** Battery energy the leg uses, in kWh. */
+  energy: number;
+  /** Consumption over the leg, in Wh per mile. */
+  consumption: number;
+  /** State of charge at the start and end of the leg, in %. Can go below zero. */
+  startCharge: number;
+  endCharge: number;
+}
+
+export interface TripPlan {
+  legs: LegPlan[];
+  totalDistance: number;
+  totalEnergy: number;
+  /** First leg on which the charge drops below the reserve, and how far into it that happens. */
+  belowReserve?: { index: number; distanceIntoLeg: number };
+}
+
+/** Estimator inputs for driving one leg in the given vehicle. */
+export function legInputs(vehicle: RangeInputs, leg: TripLeg): RangeInputs {
+  return {
+    ...vehicle,
+    avgSpeed: leg.avgSpeed,
+    temperature: leg.temperature,
+    cabinTemperature: leg.cabinTemperature,
+    routeDistance: leg.distance,
+    elevationGain: leg.elevationGain,
+    elevationLoss: leg.elevationLoss,
+  };
+}
+
+/**
+ * Walks the legs in order from the starting charge. Consumption per mile does
+ * not depend on charge, so each leg's energy is its estimator consumption times
+ * its distance.
+ */
+export function planTrip(
+  vehicle: RangeInputs,
+  legs: TripLeg[],
+  startCharge: number,
+  reserve: number,
+  coefficients: ModelCoefficients = DEFAULT_COEFFICIENTS,
+): TripPlan {
+  let charge = startCharge;
+  let belowReserve: TripPlan['belowReserve'];
+  const plans = legs.map((leg, index) => {
+    const { consumption } = estimateRange({ ...legInputs(vehicle, leg), currentCharge: 100 }, coefficients);
+    const energy = (consumption * leg.distance) / 1000;
+    const endCharge = charge - (energy / vehicle.batteryCapacity) * 100;
+    if (!belowReserve && endCharge < reserve) {
+      const share = charge <= reserve ? 0 : (charge - reserve) / (charge - endCharge);
+      belowReserve = { index, distanceIntoLeg: share * leg.distance };
+    }
+    const plan = { leg, energy, consumption, startCharge: charge, endCharge };
+    charge = endCharge;
+    return plan;
+  });
+
+  return {
+    legs: plans,
+    totalDistance: legs.reduce((total, leg) => total + leg.distance, 0),
+    totalEnergy: plans.reduce((total, plan) => total + plan.energy, 0),
+    belowReserve,
+  };
+}
@@ -0,0 +1,135 @@
+import { ModelCoefficients, RangeInputs, estimateRange } from '@/lib/range-engine';
+import { COEFFICIENT_BOUNDS, INPUT_BOUNDS, NumericInputKey } from '@/lib/range-schema';
+
+/** One standard deviation of an input, either in its canonical unit or as a share of its value. */
+export interface Spread {
+  kind: 'absolute' | 'relative';
+  amount: number;
+}
+
+/**
+ * How far each input is typically off: forecasts miss by a few degrees,
+ * average speed is a guess, and published vehicle figures are rounded.
+ * Inputs not listed are treated as exact.
+ */
+export const INPUT_UNCERTAINTY: Partial<Record<NumericInputKey, Spread>> = {
+  currentCharge: { kind: 'absolute', amount: 2 },
+  temperature: { kind: 'absolute', amount: 5 },
+  avgSpeed: { kind: 'absolute', amount: 8 },
+  cabinTemperature: { kind: 'absolute', amount: 2 },
+  elevationGain: { kind: 'relative', amount: 0.1 },
+  elevationLoss: { kind: 'relative', amount: 0.1 },
+  regenEfficiency: { kind: 'absolute', amount: 5 },
+  mass: { kind: 'relative', amount: 0.05 },
+  dragCoefficient: { kind: 'relative', amount: 0.05 },
+  frontalArea: { kind: 'relative', amount: 0.03 },
+  rollingResistance: { kind: 'relative', amount: 0.1 },
+  drivetrainEfficiency: { kind: 'absolute', amount: 2 },
+  auxiliaryLoad: { kind: 'relative', amount: 0.2 },
+};
+
+/** Every model coefficient is taken to be off by this share, one standard deviation. */
+export const COEFFICIENT_UNCERTAINTY = 0.1;
+
+export const DEFAULT_RUNS = 2000;
+const HISTOGRAM_BINS = 24;
+
+export interface Percentiles {
+  p10: number;
+  median: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  /** Lower and upper edge of the bin, in miles. */
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface UncertaintyResult {
+  runs: number;
+  range: Percentiles;
+  vsEpa: Percentiles;
+  histogram: HistogramBin[];
+}
+
+/** Small seeded generator (mulberry32) so the same inputs always give the same bands. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw by the Box-Muller transform. */
+function normal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function percentile(sorted: number[], share: number): number {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), median: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+}
+
+function histogram(values: number[]): HistogramBin[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    from: min + index * width,
+    to: min + (index + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count += 1;
+  });
+  return bins;
+}
+
+/**
+ * Monte Carlo estimate of how much the range could vary: every uncertain input
+ * and coefficient is drawn from a normal distribution around its current value,
+ * clamped to its accepted bounds, and the estimate rerun `runs` times.
+ */
+export function simulateRange(
+  inputs: RangeInputs,
+  coefficients: ModelCoefficients,
+  runs = DEFAULT_RUNS,
+  seed = 1,
+): UncertaintyResult {
+  const random = seededRandom(seed);
+  const ranges: number[] = [];
+  const ratios: number[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const sample = { ...inputs };
+    (Object.keys(INPUT_UNCERTAINTY) as NumericInputKey[]).forEach((key) => {
+      const { kind, amount } = INPUT_UNCERTAINTY[key];
+      const sd = kind === 'absolute' ? amount : Math.abs(inputs[key]) * amount;
+      const { min, max } = INPUT_BOUNDS[key];
+      sample[key] = Math.min(max, Math.max(min, inputs[key] + normal(random) * sd));
+    });
+    const sampleCoefficients = { ...coefficients };
+    (Object.keys(COEFFICIENT_BOUNDS) as (keyof ModelCoefficients)[]).forEach((key) => {
+      const { min, max } = COEFFICIENT_BOUNDS[key];
+      sampleCoefficients[key] = Math.min(max, Math.max(min, coefficients[key] * (1 + normal(random) * COEFFICIENT_UNCERTAINTY)));
+    });
+    const result = estimateRange(sample, sampleCoefficients);
+    ranges.push(result.estimatedRange);
+    ratios.push(result.vsEpa);
+  }
+
+  return { runs, range: percentiles(ranges), vsEpa: percentiles(ratios), histogram: histogram(ranges) };
+}
@@ -0,0 +1,20 @@
+import type { ModelCoefficients, RangeInputs } from '@/lib/range-engine';
+import { UncertaintyResult, simulateRange } from '@/lib/uncertainty';
+
+export interface UncertaintyRequest {
+  /** Echoed back so the caller can drop answers to requests it has since replaced. */
+  id: number;
+  inputs: RangeInputs;
+  coefficients: ModelCoefficients;
+}
+
+export interface UncertaintyResponse {
+  id: number;
+  result: UncertaintyResult;
+}
+
+self.onmessage = (event: MessageEvent<UncertaintyRequest>) => {
+  const { id, inputs, coefficients } = event.data;
+  const response: UncertaintyResponse = { id, result: simulateRange(inputs, coefficients) };
+  self.postMessage(response);
+};
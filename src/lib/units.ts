@@ -0,0 +1,74 @@
+import { METERS_PER_FOOT } from '@/lib/range-engine';
+
+// The range engine works in miles, °F, mph, ft and kg throughout. Everything
+// here converts between those canonical values and what the user sees, so the
+// engine and stored scenarios never depend on the chosen unit system.
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export type Quantity =
+  | 'distance'
+  | 'speed'
+  | 'temperature'
+  | 'temperatureChange'
+  | 'elevation'
+  | 'mass'
+  | 'consumption'
+  | 'efficiency';
+
+interface Conversion {
+  unit: string;
+  toDisplay: (value: number) => number;
+  fromDisplay: (value: number) => number;
+}
+
+export const KM_PER_MILE = 1.609344;
+export const POUNDS_PER_KG = 2.20462262;
+
+const identity = (unit: string): Conversion => ({ unit, toDisplay: (v) => v, fromDisplay: (v) => v });
+
+const scale = (unit: string, factor: number): Conversion => ({
+  unit,
+  toDisplay: (v) => v * factor,
+  fromDisplay: (v) => v / factor,
+});
+
+const CONVERSIONS: Record<Quantity, Record<UnitSystem, Conversion>> = {
+  distance: { imperial: identity('miles'), metric: scale('km', KM_PER_MILE) },
+  speed: { imperial: identity('mph'), metric: scale('km/h', KM_PER_MILE) },
+  temperature: {
+    imperial: identity('°F'),
+    metric: { unit: '°C', toDisplay: (v) => (v - 32) * 5 / 9, fromDisplay: (v) => v * 9 / 5 + 32 },
+  },
+  temperatureChange: { imperial: identity('°F'), metric: scale('°C', 5 / 9) },
+  elevation: { imperial: identity('ft'), metric: scale('m', METERS_PER_FOOT) },
+  mass: { imperial: scale('lb', POUNDS_PER_KG), metric: identity('kg') },
+  consumption: { imperial: identity('Wh/mi'), metric: scale('Wh/km', 1 / KM_PER_MILE) },
+  // mi/kWh is inverted into the kWh/100 km figure European drivers expect.
+  efficiency: {
+    imperial: identity('mi/kWh'),
+    metric: {
+      unit: 'kWh/100 km',
+      toDisplay: (v) => (v ? 100 / (v * KM_PER_MILE) : 0),
+      fromDisplay: (v) => (v ? 100 / (v * KM_PER_MILE) : 0),
+    },
+  },
+};
+
+export function unitLabel(quantity: Quantity, system: UnitSystem): string {
+  return CONVERSIONS[quantity][system].unit;
+}
+
+export function toDisplay(quantity: Quantity, value: number, system: UnitSystem): number {
+  return CONVERSIONS[quantity][system].toDisplay(value);
+}
+
+export function fromDisplay(quantity: Quantity, value: number, system: UnitSystem): number {
+  return CONVERSIONS[quantity][system].fromDisplay(value);
+}
+
+/** Rounds a converted value for display so 70 °F shows as 21.11 °C rather than 21.111111111111. */
+export function roundForDisplay(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,263 @@
+import { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Plus, X } from 'lucide-react';
+import { useGarage } from "@/hooks/use-garage";
+import { useScenarios } from "@/hooks/use-scenarios";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { cn } from "@/lib/utils";
+import { DEFAULT_COEFFICIENTS, DEFAULT_INPUTS, Factors, RangeInputs, RangeResult, estimateRange } from '@/lib/range-engine';
+import { decodeScenario, hasScenario } from '@/lib/scenario-url';
+import { roundForDisplay, toDisplay, unitLabel } from '@/lib/units';
+
+const MIN_COLUMNS = 2;
+const MAX_COLUMNS = 4;
+/** Column source for the scenario carried in the link from the estimator. */
+const CURRENT = 'current';
+/** Vehicle choice that keeps the specs the scenario was saved with. */
+const AS_SAVED = 'as-saved';
+
+interface Column {
+  key: number;
+  source: string;
+  vehicleId: string;
+}
+
+interface Metric {
+  label: string;
+  /** Value in display units. */
+  value: (result: RangeResult) => number;
+  decimals: number;
+  /** Percentages show their deltas in percentage points. */
+  percent?: boolean;
+  /** Whether a larger value is an improvement, which decides how deltas are coloured. */
+  higherIsBetter: boolean;
+}
+
+const FACTOR_ROWS: { key: keyof Factors; label: string }[] = [
+  { key: 'temperature', label: 'Temperature factor' },
+  { key: 'speed', label: 'Speed factor' },
+  { key: 'climate', label: 'Climate factor' },
+  { key: 'terrain', label: 'Terrain factor' },
+];
+
+export default function Compare() {
+  const [searchParams] = useSearchParams();
+  const { system } = useUnitSystem();
+  const { scenarios } = useScenarios();
+  const { vehicles, activeVehicle } = useGarage();
+
+  const current = useMemo<RangeInputs | undefined>(
+    () => (hasScenario(searchParams) ? { ...DEFAULT_INPUTS, ...decodeScenario(searchParams) } : undefined),
+    [searchParams]
+  );
+  const sources = useMemo(() => [
+    ...(current ? [{ id: CURRENT, name: 'Current estimate', inputs: current }] : []),
+    ...scenarios.map((scenario) => ({ id: scenario.id, name: scenario.name, inputs: scenario.inputs })),
+  ], [current, scenarios]);
+
+  const [columns, setColumns] = useState<Column[]>(() =>
+    sources.length === 0
+      ? []
+      : Array.from({ length: MIN_COLUMNS }, (_, index) => ({
+        key: index,
+        source: sources[index % sources.length].id,
+        vehicleId: AS_SAVED,
+      }))
+  );
+  const [baselineKey, setBaselineKey] = useState<number>(0);
+
+  const results = useMemo(() => columns.map((column) => {
+    const source = sources.find((candidate) => candidate.id === column.source);
+    if (!source) {
+      return undefined;
+    }
+    const vehicle = vehicles.find((candidate) => candidate.id === column.vehicleId);
+    // Columns kept as saved use the active vehicle's coefficients, like the estimator does.
+    return estimateRange(
+      { ...source.inputs, ...vehicle?.specs },
+      (vehicle ?? activeVehicle)?.coefficients ?? DEFAULT_COEFFICIENTS
+    );
+  }), [columns, sources, vehicles, activeVehicle]);
+
+  const distanceUnit = unitLabel('distance', system);
+  const metrics: Metric[] = [
+    {
+      label: `Estimated range (${distanceUnit})`,
+      value: (result) => toDisplay('distance', result.estimatedRange, system),
+      decimals: 0,
+      higherIsBetter: true,
+    },
+    {
+      label: `Efficiency (${unitLabel('efficiency', system)})`,
+      value: (result) => toDisplay('efficiency', result.efficiency, system),
+      decimals: 1,
+      // Metric efficiency is quoted as energy per distance, where less is better.
+      higherIsBetter: system === 'imperial',
+    },
+    {
+      label: 'vs EPA rating',
+      value: (result) => result.vsEpa * 100,
+      decimals: 0,
+      percent: true,
+      higherIsBetter: true,
+    },
+    ...FACTOR_ROWS.map(({ key, label }): Metric => ({
+      label,
+      value: (result) => result.factors[key] * 100,
+      decimals: 0,
+      percent: true,
+      higherIsBetter: true,
+    })),
+  ];
+
+  const baselineIndex = Math.max(0, columns.findIndex((column) => column.key === baselineKey));
+  const baseline = results[baselineIndex];
+
+  const updateColumn = (key: number, changes: Partial<Column>) =>
+    setColumns((previous) => previous.map((column) => (column.key === key ? { ...column, ...changes } : column)));
+
+  const addColumn = () => setColumns((previous) => [
+    ...previous,
+    {
+      key: Math.max(...previous.map((column) => column.key)) + 1,
+      source: sources[previous.length % sources.length].id,
+      vehicleId: AS_SAVED,
+    },
+  ]);
+
+  const removeColumn = (key: number) => {
+    setColumns((previous) => previous.filter((column) => column.key !== key));
+    if (key === baselineKey) {
+      setBaselineKey(columns.find((column) => column.key !== key).key);
+    }
+  };
+
+  const formatValue = (metric: Metric, value: number) =>
+    `${roundForDisplay(value, metric.decimals)}${metric.percent ? '%' : ''}`;
+
+  // Deltas are taken between the rounded values so they agree with the figures shown.
+  const formatDelta = (metric: Metric, value: number, base: number) => {
+    const delta = roundForDisplay(roundForDisplay(value, metric.decimals) - roundForDisplay(base, metric.decimals), metric.decimals);
+    if (delta === 0) {
+      return null;
+    }
+    const better = delta > 0 === metric.higherIsBetter;
+    return (
+      <span className={cn("ml-2 text-xs font-medium", better ? "text-green-600" : "text-destructive")}>
+        {delta > 0 ? '+' : '−'}{Math.abs(delta)}{metric.percent ? ' pts' : ''}
+      </span>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 font-sans">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <Button asChild variant="ghost" size="sm" className="mb-4">
+            <Link to={current ? `/?${searchParams.toString()}` : '/'}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to estimator
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold text-foreground mb-3">Compare Scenarios</h1>
+          <p className="text-lg text-muted-foreground">
+            Put two to four saved scenarios side by side, optionally swapping in a vehicle from your garage.
+            Differences are shown against the baseline column.
+          </p>
+        </div>
+
+        <Card className="p-6">
+          {sources.length === 0 ? (
+            <p className="text-muted-foreground">
+              Save a scenario from the estimator first, or open this page from its Compare button to include the current estimate.
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-48" />
+                    {columns.map((column) => (
+                      <TableHead key={column.key} className="min-w-[12rem] align-top py-3">
+                        <div className="space-y-2">
+                          <div className="flex gap-1">
+                            <Select value={column.source} onValueChange={(source) => updateColumn(column.key, { source })}>
+                              <SelectTrigger aria-label="Scenario">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {sources.map((source) => (
+                                  <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {columns.length > MIN_COLUMNS && (
+                              <Button variant="ghost" size="icon" aria-label="Remove column" onClick={() => removeColumn(column.key)}>
+                                <X className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                          {vehicles.length > 0 && (
+                            <Select value={column.vehicleId} onValueChange={(vehicleId) => updateColumn(column.key, { vehicleId })}>
+                              <SelectTrigger aria-label="Vehicle">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={AS_SAVED}>Vehicle as saved</SelectItem>
+                                {vehicles.map((vehicle) => (
+                                  <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Button
+                            variant={column.key === columns[baselineIndex].key ? "default" : "outline"}
+                            size="sm"
+                            className="w-full"
+                            onClick={() => setBaselineKey(column.key)}
+                          >
+                            {column.key === columns[baselineIndex].key ? 'Baseline' : 'Set as baseline'}
+                          </Button>
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metrics.map((metric) => (
+                    <TableRow key={metric.label}>
+                      <TableCell className="font-medium">{metric.label}</TableCell>
+                      {columns.map((column, index) => {
+                        const result = results[index];
+                        if (!result) {
+                          return <TableCell key={column.key} className="text-muted-foreground">Scenario deleted</TableCell>;
+                        }
+                        const value = metric.value(result);
+                        return (
+                          <TableCell key={column.key} className="text-base">
+                            {formatValue(metric, value)}
+                            {baseline && index !== baselineIndex && formatDelta(metric, value, metric.value(baseline))}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {columns.length < MAX_COLUMNS && (
+                <Button variant="outline" className="mt-4" onClick={addColumn}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add column
+                </Button>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
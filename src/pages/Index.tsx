@@ -1,115 +1,195 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card } from "@/components/ui/card";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Form } from "@/components/ui/form";
+import { toast } from "@/components/ui/sonner";
 import { HoverCard, HoverCardTrigger, HoverCardContent } from "@/components/ui/hover-card";
-import { HelpCircle, Info, Calculator } from 'lucide-react';
+import { HelpCircle, Info, Calculator, AlertTriangle, Link2, Columns3, Route, NotebookPen } from 'lucide-react';
+import { CalculationFormulas } from "@/components/CalculationFormulas";
+import { ChargingPanel } from "@/components/ChargingPanel";
+import { ChoiceField, NumberField } from "@/components/FormFields";
+import { GarageControls } from "@/components/GarageControls";
+import { GoalSeekPanel } from "@/components/GoalSeekPanel";
+import { RangeCurves } from "@/components/RangeCurves";
+import { RangeHeatmap } from "@/components/RangeHeatmap";
+import { RangeTornado } from "@/components/RangeTornado";
+import { RangeUncertainty } from "@/components/RangeUncertainty";
+import { RangeWaterfall } from "@/components/RangeWaterfall";
+import { RouteImport } from "@/components/RouteImport";
+import { ScenarioLibrary } from "@/components/ScenarioLibrary";
+import { VehiclePicker } from "@/components/VehiclePicker";
+import { CatalogVehicle, VEHICLE_CATALOG, catalogInputs, catalogVehicleName } from "@/data/vehicle-catalog";
+import { useGarage } from "@/hooks/use-garage";
+import { useRangeUncertainty } from "@/hooks/use-range-uncertainty";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import {
+  estimateRange,
+  DEFAULT_COEFFICIENTS,
+  DEFAULT_INPUTS,
+  factorBounds,
+  TERRAIN_PRESETS,
+  Factors,
+  RangeInputs,
+  RangeModel,
+  TerrainType,
+} from '@/lib/range-engine';
+import { ChargeCurve, typicalChargeCurve } from '@/lib/charging';
+import { GarageVehicle, matchesSpecs } from '@/lib/garage';
+import { INPUT_BOUNDS, NumericInputKey, buildRangeInputsSchema, displayBounds, inputUnit, rangeInputsSchema } from '@/lib/range-schema';
+import { decodeScenario, encodeScenario, hasScenario } from '@/lib/scenario-url';
+import { UnitSystem, roundForDisplay, toDisplay, unitLabel } from '@/lib/units';
 
-interface Factors {
-  temperature: number;
-  speed: number;
-  climate: number;
-  terrain: number;
-}
+const PHYSICS_FIELDS: { key: NumericInputKey; label: string; help: string }[] = [
+  { key: 'dragCoefficient', label: 'Drag Coefficient (Cd)', help: 'How aerodynamically slippery the body is. Most modern EVs are between 0.20 and 0.35.' },
+  { key: 'frontalArea', label: 'Frontal Area', help: 'Cross-sectional area the car pushes through the air. Sedans are around 2.2 m², SUVs and pickups 2.6 m² or more.' },
+  { key: 'rollingResistance', label: 'Rolling Resistance (Crr)', help: 'Tire rolling resistance coefficient. Low-rolling-resistance EV tires are around 0.008; winter tires can exceed 0.012.' },
+  { key: 'auxiliaryLoad', label: 'Auxiliary Load', help: 'Constant power for electronics, pumps and lights, excluding cabin heating and cooling.' },
+];
 
-type ClimateUsage = 'Low' | 'Medium' | 'High';
-type TerrainType = 'Flat' | 'Hilly' | 'Mountain';
-
-const NumericInput = React.forwardRef<
-  HTMLInputElement,
-  React.ComponentProps<"input"> & { onChange: (value: number) => void }
->(({ className, value, onChange, ...props }, ref) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const parsedValue = parseFloat(e.target.value);
-    if (!isNaN(parsedValue)) {
-      onChange(parsedValue);
-    } else if (e.target.value === "") {
-      onChange(NaN);
-    }
-  };
-
-  return (
-    <Input
-      type="number"
-      className={className}
-      value={isNaN(value as number) ? '' : (value as number)}
-      onChange={handleChange}
-      ref={ref}
-      {...props}
-    />
-  );
-});
-NumericInput.displayName = "NumericInput";
+const FACTOR_LABELS: Record<keyof Factors, string> = {
+  temperature: 'Temperature',
+  speed: 'Speed',
+  climate: 'Climate control',
+  terrain: 'Terrain',
+};
 
 export default function Index() {
-  const [batteryCapacity, setBatteryCapacity] = useState<number>(75);
-  const [epaRange, setEpaRange] = useState<number>(330);
-  const [currentCharge, setCurrentCharge] = useState<number>(80);
-  const [temperature, setTemperature] = useState<number>(70);
-  const [avgSpeed, setAvgSpeed] = useState<number>(65);
-  const [climateUsage, setClimateUsage] = useState<ClimateUsage>('Medium');
-  const [terrainType, setTerrainType] = useState<TerrainType>('Flat');
-  const [estimatedRange, setEstimatedRange] = useState<number>(0);
-  const [efficiency, setEfficiency] = useState<number>(0);
-  const [factors, setFactors] = useState<Factors>({
-    temperature: 1,
-    speed: 1,
-    climate: 1,
-    terrain: 1,
+  const { system, setUnitSystem } = useUnitSystem();
+  const { activeVehicle, updateVehicle } = useGarage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const schema = useMemo(() => buildRangeInputsSchema(system), [system]);
+  // A shared link takes precedence over the vehicle that was active when the page was last open.
+  const [initialInputs] = useState<RangeInputs>(() => ({
+    ...DEFAULT_INPUTS,
+    ...activeVehicle?.specs,
+    ...decodeScenario(searchParams),
+  }));
+  const form = useForm<RangeInputs>({
+    resolver: zodResolver(schema),
+    defaultValues: initialInputs,
+    mode: 'onChange',
   });
+  // Only inputs that pass validation reach the engine; while a field is
+  // invalid the results keep showing the last valid scenario.
+  const [inputs, setInputs] = useState<RangeInputs>(initialInputs);
   const [showFormulas, setShowFormulas] = useState<boolean>(false);
+  const [catalogVehicleId, setCatalogVehicleId] = useState<string | undefined>(
+    hasScenario(searchParams) ? undefined : activeVehicle?.catalogId
+  );
+  const coefficients = activeVehicle?.coefficients ?? DEFAULT_COEFFICIENTS;
+  // Curve edits stick to the saved vehicle; for unsaved inputs they last until the page closes.
+  const [unsavedCurve, setUnsavedCurve] = useState<ChargeCurve>();
+  const chargeCurve = (activeVehicle ? activeVehicle.chargeCurve : unsavedCurve) ?? typicalChargeCurve(inputs.batteryCapacity);
+  const setChargeCurve = (curve: ChargeCurve) => {
+    if (activeVehicle) {
+      updateVehicle(activeVehicle.id, { chargeCurve: curve });
+    } else {
+      setUnsavedCurve(curve);
+    }
+  };
+
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      const parsed = rangeInputsSchema.safeParse(values);
+      if (parsed.success) {
+        setInputs(parsed.data);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
 
+  // Keep the address bar in step with the estimate so it can be shared at any time.
   useEffect(() => {
-    // Temperature impact
-    const temperatureFactor = 1 - (Math.abs(temperature - 70) * 0.015);
-
-    // Speed impact (assuming optimal speed is 25 mph)
-    const speedFactor = 1 - (Math.pow(Math.max(0, avgSpeed - 25), 2) * 0.0008);
-
-    // Climate control usage impact
-    let climateFactor = 1;
-    switch (climateUsage) {
-      case 'Low':
-        climateFactor = 0.95;
-        break;
-      case 'Medium':
-        climateFactor = 0.85;
-        break;
-      case 'High':
-        climateFactor = 0.75;
-        break;
+    const next = encodeScenario(inputs);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
     }
+  }, [inputs, searchParams, setSearchParams]);
 
-    // Terrain type impact
-    let terrainFactor = 1;
-    switch (terrainType) {
-      case 'Hilly':
-        terrainFactor = 0.9;
-        break;
-      case 'Mountain':
-        terrainFactor = 0.8;
-        break;
-      default:
-        terrainFactor = 1;
-        break;
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied', { description: 'Anyone who opens it will see this exact scenario.' });
+    } catch {
+      toast.error('Could not copy the link', { description: 'Copy it from the address bar instead.' });
     }
+  };
 
-    setFactors({
-      temperature: temperatureFactor,
-      speed: speedFactor,
-      climate: climateFactor,
-      terrain: terrainFactor,
+  // Re-validate so any visible error quotes its bounds in the new units.
+  useEffect(() => {
+    if (Object.keys(form.formState.errors).length > 0) {
+      form.trigger();
+    }
+  }, [schema, form]);
+
+  const fieldProps = (key: NumericInputKey) => ({
+    ...displayBounds(key, system),
+    quantity: INPUT_BOUNDS[key].quantity,
+  });
+  const withUnit = (label: string, key: NumericInputKey) => {
+    const unit = inputUnit(key, system);
+    return unit ? `${label} (${unit})` : label;
+  };
+  const distanceUnit = unitLabel('distance', system);
+  const formatDistance = (miles: number) => Math.round(toDisplay('distance', miles, system));
+
+  const { model } = inputs;
+  const result = useMemo(() => estimateRange(inputs, coefficients), [inputs, coefficients]);
+  const uncertainty = useRangeUncertainty(inputs, coefficients);
+  const {
+    estimatedRange,
+    efficiency,
+    vsEpa,
+    hvacPower,
+    hvacEnergy,
+    climbEnergy,
+    regenEnergy,
+    warnings,
+  } = result;
+  const alternateModel: RangeModel = model === 'Physics' ? 'Simple' : 'Physics';
+  const alternateRange = useMemo(
+    () => estimateRange({ ...inputs, model: alternateModel }, coefficients).estimatedRange,
+    [inputs, alternateModel, coefficients]
+  );
+  const hasErrors = Object.keys(form.formState.errors).length > 0;
+
+  const activeTerrain = (Object.keys(TERRAIN_PRESETS) as TerrainType[]).find((terrain) =>
+    TERRAIN_PRESETS[terrain].gain * inputs.routeDistance === inputs.elevationGain &&
+    TERRAIN_PRESETS[terrain].loss * inputs.routeDistance === inputs.elevationLoss
+  );
+
+  const catalogVehicle = VEHICLE_CATALOG.find((vehicle) => vehicle.id === catalogVehicleId);
+  const isCustomized = catalogVehicle !== undefined &&
+    Object.entries(catalogInputs(catalogVehicle)).some(([key, value]) => inputs[key as keyof RangeInputs] !== value);
+
+  const applyInputs = useCallback((values: Partial<RangeInputs>) => {
+    Object.entries(values).forEach(([key, value]) => {
+      form.setValue(key as keyof RangeInputs, value, { shouldValidate: true, shouldDirty: true });
     });
+  }, [form]);
 
-    const newEstimatedRange = epaRange * (currentCharge / 100) * temperatureFactor * speedFactor * climateFactor * terrainFactor;
-    setEstimatedRange(newEstimatedRange);
+  const applyCatalogVehicle = (vehicle: CatalogVehicle) => {
+    setCatalogVehicleId(vehicle.id);
+    applyInputs(catalogInputs(vehicle));
+  };
 
-    const newEfficiency = batteryCapacity ? newEstimatedRange / (batteryCapacity * (currentCharge / 100)) : 0;
-    setEfficiency(newEfficiency);
+  const applyGarageVehicle = (vehicle: GarageVehicle) => {
+    setCatalogVehicleId(vehicle.catalogId);
+    applyInputs(vehicle.specs);
+  };
+  const hasUnsavedSpecs = activeVehicle !== undefined && !matchesSpecs(inputs, activeVehicle.specs);
 
-  }, [batteryCapacity, epaRange, currentCharge, temperature, avgSpeed, climateUsage, terrainType]);
+  const applyTerrainPreset = (terrain: TerrainType) => {
+    const { gain, loss } = TERRAIN_PRESETS[terrain];
+    form.setValue('elevationGain', gain * inputs.routeDistance, { shouldValidate: true });
+    form.setValue('elevationLoss', loss * inputs.routeDistance, { shouldValidate: true });
+  };
 
   return (
     <div className="min-h-screen bg-background p-4 font-sans">
@@ -121,203 +201,304 @@ export default function Index() {
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
             Calculate your electric vehicle's range based on real-world conditions and driving patterns
           </p>
+          <div className="inline-grid grid-cols-2 gap-2 mt-4">
+            {(['imperial', 'metric'] as UnitSystem[]).map((option) => (
+              <Button
+                key={option}
+                variant={system === option ? "default" : "outline"}
+                size="sm"
+                onClick={() => setUnitSystem(option)}
+                className="text-sm font-medium capitalize"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Input Section */}
           <Card className="p-6">
-            <h2 className="text-2xl font-semibold mb-6 text-foreground">Vehicle Information</h2>
-            
-            <div className="space-y-6">
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label htmlFor="batteryCapacity" className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Battery Capacity (kWh)
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">The total energy storage capacity of your EV's battery pack, typically found in your vehicle specifications.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <NumericInput
-                  id="batteryCapacity"
-                  value={batteryCapacity}
-                  onChange={(value) => setBatteryCapacity(value)}
-                  min={10}
-                  max={200}
-                  step={1}
-                  className="mt-2 text-base"
-                />
-              </div>
+            <Form {...form}>
+              <form onSubmit={(e) => e.preventDefault()}>
+                <h2 className="text-2xl font-semibold mb-6 text-foreground">Vehicle Information</h2>
 
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label htmlFor="epaRange" className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      EPA Range (miles)
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">The official EPA-rated range of your vehicle under standardized testing conditions.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <NumericInput
-                  id="epaRange"
-                  value={epaRange}
-                  onChange={(value) => setEpaRange(value)}
-                  min={50}
-                  max={500}
-                  step={1}
-                  className="mt-2 text-base"
-                />
-              </div>
+                <div className="space-y-6">
+                  <div>
+                    <HoverCard>
+                      <HoverCardTrigger asChild>
+                        <Label className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
+                          Garage
+                          <HelpCircle className="w-4 h-4" />
+                        </Label>
+                      </HoverCardTrigger>
+                      <HoverCardContent className="w-80">
+                        <p className="text-sm">Save the specs below as a named vehicle, with optional calibration for how it compares with a typical EV, and switch between saved vehicles. The garage is kept in this browser; export it to move it elsewhere.</p>
+                      </HoverCardContent>
+                    </HoverCard>
+                    <div className="mt-2">
+                      <GarageControls
+                        inputs={inputs}
+                        catalogId={catalogVehicleId}
+                        suggestedName={catalogVehicle ? catalogVehicleName(catalogVehicle) : 'My EV'}
+                        onActivate={applyGarageVehicle}
+                      />
+                    </div>
+                    {hasUnsavedSpecs && (
+                      <p className="text-sm text-muted-foreground mt-2">Specs below differ from the saved {activeVehicle.name}. Save to update it.</p>
+                    )}
+                  </div>
 
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label htmlFor="currentCharge" className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Current Charge (%)
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">Your vehicle's current battery charge level as a percentage of total capacity.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <div className="mt-2">
-                  <NumericInput
-                    id="currentCharge"
-                    value={currentCharge}
-                    onChange={(value) => setCurrentCharge(value)}
-                    min={0}
-                    max={100}
-                    step={1}
-                    className="text-base"
+                  <div>
+                    <HoverCard>
+                      <HoverCardTrigger asChild>
+                        <Label className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
+                          Vehicle
+                          <HelpCircle className="w-4 h-4" />
+                        </Label>
+                      </HoverCardTrigger>
+                      <HoverCardContent className="w-80">
+                        <p className="text-sm">Pick your car to fill in its battery capacity, EPA range, mass, drag coefficient and heater type. You can still adjust any of them afterwards.</p>
+                      </HoverCardContent>
+                    </HoverCard>
+                    <div className="mt-2">
+                      <VehiclePicker selectedId={catalogVehicleId} onSelect={applyCatalogVehicle} />
+                    </div>
+                    {isCustomized && (
+                      <p className="text-sm text-muted-foreground mt-2">Some specs below have been changed from the catalog values.</p>
+                    )}
+                  </div>
+
+                  <NumberField
+                    control={form.control}
+                    name="batteryCapacity"
+                    label="Battery Capacity (kWh)"
+                    help="The total energy storage capacity of your EV's battery pack, typically found in your vehicle specifications."
+                    {...fieldProps('batteryCapacity')}
+                  />
+
+                  <NumberField
+                    control={form.control}
+                    name="epaRange"
+                    label={withUnit('EPA Range', 'epaRange')}
+                    help="The official EPA-rated range of your vehicle under standardized testing conditions."
+                    {...fieldProps('epaRange')}
+                  />
+
+                  <NumberField
+                    control={form.control}
+                    name="currentCharge"
+                    label="Current Charge (%)"
+                    help="Your vehicle's current battery charge level as a percentage of total capacity."
+                    {...fieldProps('currentCharge')}
+                  >
+                    <Progress value={inputs.currentCharge} className="mt-3 h-3" />
+                  </NumberField>
+
+                  <NumberField
+                    control={form.control}
+                    name="mass"
+                    label={withUnit('Vehicle Mass', 'mass')}
+                    help="Curb weight plus passengers and cargo. Heavier cars lose more energy to rolling resistance and climbing."
+                    {...fieldProps('mass')}
+                  />
+
+                  <NumberField
+                    control={form.control}
+                    name="drivetrainEfficiency"
+                    label="Drivetrain Efficiency (%)"
+                    help="Share of battery energy that reaches the wheels after inverter, motor and gearbox losses."
+                    {...fieldProps('drivetrainEfficiency')}
                   />
-                  <Progress value={currentCharge} className="mt-3 h-3" />
                 </div>
-              </div>
-            </div>
 
-            <h3 className="text-xl font-semibold mt-8 mb-4 text-foreground">Driving Conditions</h3>
-            
-            <div className="space-y-6">
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label htmlFor="temperature" className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Temperature (°F)
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">Ambient temperature significantly affects battery performance. Extreme cold or heat reduces efficiency.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <NumericInput
-                  id="temperature"
-                  value={temperature}
-                  onChange={(value) => setTemperature(value)}
-                  min={-20}
-                  max={120}
-                  step={1}
-                  className="mt-2 text-base"
-                />
-              </div>
+                <h3 className="text-xl font-semibold mt-8 mb-4 text-foreground">Driving Conditions</h3>
 
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label htmlFor="avgSpeed" className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Average Speed (mph)
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">Higher speeds increase aerodynamic drag and reduce efficiency. City driving (25-35 mph) is typically most efficient.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <NumericInput
-                  id="avgSpeed"
-                  value={avgSpeed}
-                  onChange={(value) => setAvgSpeed(value)}
-                  min={5}
-                  max={85}
-                  step={1}
-                  className="mt-2 text-base"
-                />
-              </div>
+                <div className="space-y-6">
+                  <NumberField
+                    control={form.control}
+                    name="temperature"
+                    label={withUnit('Temperature', 'temperature')}
+                    help="Ambient temperature significantly affects battery performance. Extreme cold or heat reduces efficiency."
+                    {...fieldProps('temperature')}
+                  />
+
+                  <NumberField
+                    control={form.control}
+                    name="avgSpeed"
+                    label={withUnit('Average Speed', 'avgSpeed')}
+                    help={`Higher speeds increase aerodynamic drag and reduce efficiency. City driving (${system === 'metric' ? '40-55 km/h' : '25-35 mph'}) is typically most efficient.`}
+                    {...fieldProps('avgSpeed')}
+                  />
+
+                  <NumberField
+                    control={form.control}
+                    name="cabinTemperature"
+                    label={withUnit('Cabin Temperature', 'cabinTemperature')}
+                    help="The temperature climate control holds inside the car. The further it is from the outside temperature, the more power heating or cooling draws."
+                    {...fieldProps('cabinTemperature')}
+                  />
+
+                  <ChoiceField
+                    control={form.control}
+                    name="heaterType"
+                    label="Cabin Heater"
+                    help="Heating and cooling systems draw significant power from the battery, especially heating in winter conditions. A heat pump moves heat in from outside and needs far less power than a resistive heater, though its advantage shrinks in deep cold."
+                    options={['Heat Pump', 'Resistive']}
+                  />
 
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Climate Control Usage
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">Heating and cooling systems draw significant power from the battery, especially heating in winter conditions.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <div className="grid grid-cols-3 gap-3 mt-2">
-                  {(['Low', 'Medium', 'High'] as ClimateUsage[]).map((level) => (
-                    <Button
-                      key={level}
-                      variant={climateUsage === level ? "default" : "outline"}
-                      onClick={() => setClimateUsage(level)}
-                      className="text-sm font-medium"
-                    >
-                      {level}
-                    </Button>
-                  ))}
                 </div>
-              </div>
 
-              <div>
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Label className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
-                      Terrain Type
-                      <HelpCircle className="w-4 h-4" />
-                    </Label>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-80">
-                    <p className="text-sm">Hilly terrain requires more energy for climbing but can recover some through regenerative braking on descents.</p>
-                  </HoverCardContent>
-                </HoverCard>
-                <div className="grid grid-cols-3 gap-3 mt-2">
-                  {(['Flat', 'Hilly', 'Mountain'] as TerrainType[]).map((terrain) => (
-                    <Button
-                      key={terrain}
-                      variant={terrainType === terrain ? "default" : "outline"}
-                      onClick={() => setTerrainType(terrain)}
-                      className="text-sm font-medium"
-                    >
-                      {terrain}
-                    </Button>
-                  ))}
+                <h3 className="text-xl font-semibold mt-8 mb-4 text-foreground">Terrain</h3>
+
+                <div className="space-y-6">
+                  <RouteImport estimatedRange={estimatedRange} currentCharge={inputs.currentCharge} onApply={applyInputs} />
+
+                  <div>
+                    <HoverCard>
+                      <HoverCardTrigger asChild>
+                        <Label className="text-base font-medium text-foreground cursor-help flex items-center gap-1">
+                          Terrain Type
+                          <HelpCircle className="w-4 h-4" />
+                        </Label>
+                      </HoverCardTrigger>
+                      <HoverCardContent className="w-80">
+                        <p className="text-sm">
+                          Presets that fill in typical elevation gain and loss for the route distance: none for flat roads,
+                          {' '}{system === 'metric' ? '8 m per km' : '40 ft per mile'} each way for hills
+                          and {system === 'metric' ? '19 m per km' : '100 ft per mile'} for mountains. An imported route
+                          {' '}fills in its measured climbing instead.
+                        </p>
+                      </HoverCardContent>
+                    </HoverCard>
+                    <div className="grid grid-cols-3 gap-3 mt-2">
+                      {(Object.keys(TERRAIN_PRESETS) as TerrainType[]).map((terrain) => (
+                        <Button
+                          key={terrain}
+                          type="button"
+                          variant={activeTerrain === terrain ? "default" : "outline"}
+                          onClick={() => applyTerrainPreset(terrain)}
+                          className="text-sm font-medium"
+                        >
+                          {terrain}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <NumberField
+                    control={form.control}
+                    name="routeDistance"
+                    label={withUnit('Route Distance', 'routeDistance')}
+                    help="Length of the route the elevation gain and loss below are measured over. For a net climb, enter it as the gain and leave the loss at zero."
+                    {...fieldProps('routeDistance')}
+                  />
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    <NumberField
+                      control={form.control}
+                      name="elevationGain"
+                      label={withUnit('Elevation Gain', 'elevationGain')}
+                      help="Total climbing along the route. Lifting the car takes energy that is drawn through the drivetrain."
+                      {...fieldProps('elevationGain')}
+                    />
+
+                    <NumberField
+                      control={form.control}
+                      name="elevationLoss"
+                      label={withUnit('Elevation Loss', 'elevationLoss')}
+                      help="Total descending along the route. Some of the energy spent climbing comes back through regenerative braking."
+                      {...fieldProps('elevationLoss')}
+                    />
+                  </div>
+
+                  <NumberField
+                    control={form.control}
+                    name="regenEfficiency"
+                    label="Regen Efficiency (%)"
+                    help="Share of the potential energy on descents that regenerative braking returns to the battery. Most EVs recover 50-70%."
+                    {...fieldProps('regenEfficiency')}
+                  />
                 </div>
-              </div>
-            </div>
+
+                <h3 className="text-xl font-semibold mt-8 mb-4 text-foreground">Consumption Model</h3>
+
+                <div className="space-y-6">
+                  <ChoiceField
+                    control={form.control}
+                    name="model"
+                    label="Model"
+                    help="The simple model scales the EPA range by fitted factors. The physics model builds consumption up from aerodynamic drag, rolling resistance, drivetrain losses and accessory load."
+                    options={['Simple', 'Physics']}
+                  />
+
+                  {model === 'Physics' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                      {PHYSICS_FIELDS.map((field) => (
+                        <NumberField
+                          key={field.key}
+                          control={form.control}
+                          name={field.key}
+                          label={withUnit(field.label, field.key)}
+                          help={field.help}
+                          {...fieldProps(field.key)}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </form>
+            </Form>
           </Card>
 
           {/* Results Section */}
           <Card className="p-6">
             <div className="flex justify-between items-start mb-6">
               <h2 className="text-2xl font-semibold text-foreground">Range Analysis</h2>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowFormulas(!showFormulas)}
-                className="text-sm"
-              >
-                <Calculator className="w-4 h-4 mr-2" />
-                {showFormulas ? 'Hide' : 'Show'} Formulas
-              </Button>
+              <div className="flex flex-wrap justify-end gap-2">
+                <ScenarioLibrary
+                  inputs={inputs}
+                  result={result}
+                  vehicleName={activeVehicle?.name}
+                  onLoad={applyInputs}
+                />
+                <Button asChild variant="outline" size="sm" className="text-sm">
+                  <Link to={`/compare?${searchParams.toString()}`}>
+                    <Columns3 className="w-4 h-4 mr-2" />
+                    Compare
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" size="sm" className="text-sm">
+                  <Link to={`/trip?${searchParams.toString()}`}>
+                    <Route className="w-4 h-4 mr-2" />
+                    Plan a trip
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" size="sm" className="text-sm">
+                  <Link to={`/journal?${searchParams.toString()}`}>
+                    <NotebookPen className="w-4 h-4 mr-2" />
+                    Journal
+                  </Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={copyLink}
+                  className="text-sm"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Copy link
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowFormulas(!showFormulas)}
+                  className="text-sm"
+                >
+                  <Calculator className="w-4 h-4 mr-2" />
+                  {showFormulas ? 'Hide' : 'Show'} Formulas
+                </Button>
+              </div>
             </div>
 
             <div className="bg-muted/50 rounded-lg p-4 mb-6">
@@ -327,44 +508,50 @@ export default function Index() {
               </p>
             </div>
 
-            {showFormulas && (
-              <Card className="p-4 mb-6 bg-muted/30">
-                <h3 className="text-lg font-semibold mb-3 text-foreground">Calculation Formulas</h3>
-                <div className="space-y-3 text-sm">
-                  <div>
-                    <p className="font-medium text-foreground">Temperature Factor:</p>
-                    <p className="text-muted-foreground font-mono">factor = 1 - (|temp - 70| × 0.015)</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Speed Factor:</p>
-                    <p className="text-muted-foreground font-mono">factor = 1 - ((speed - 25)² × 0.0008)</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Climate Factor:</p>
-                    <p className="text-muted-foreground font-mono">Low: 0.95, Medium: 0.85, High: 0.75</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Terrain Factor:</p>
-                    <p className="text-muted-foreground font-mono">Flat: 1.0, Hilly: 0.9, Mountain: 0.8</p>
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Final Range:</p>
-                    <p className="text-muted-foreground font-mono">EPA Range × All Factors × (Current Charge / 100)</p>
-                  </div>
-                </div>
-              </Card>
+            {hasErrors && (
+              <Alert className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Check your inputs</AlertTitle>
+                <AlertDescription>
+                  Results below are for the last valid set of inputs until the highlighted fields are corrected.
+                </AlertDescription>
+              </Alert>
             )}
 
+            {warnings.length > 0 && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Outside model validity</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {warnings.map((warning) => (
+                      <li key={warning.factor}>
+                        {FACTOR_LABELS[warning.factor]} factor of {Math.round(warning.value * 100)}% is outside the
+                        {' '}{Math.round(factorBounds(model)[warning.factor].min * 100)}–{Math.round(factorBounds(model)[warning.factor].max * 100)}% the
+                        {' '}model supports and was limited to {Math.round(warning.bound * 100)}%.
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2">Treat this estimate as approximate{model === 'Simple' ? ', or switch to the physics model' : ''}.</p>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {showFormulas && <CalculationFormulas model={model} coefficients={coefficients} />}
+
             <div className="space-y-6">
               <div className="text-center">
                 <HoverCard>
                   <HoverCardTrigger asChild>
                     <div className="cursor-help">
                       <div className="text-5xl font-bold text-primary mb-2">
-                        {Math.round(estimatedRange)}
+                        {formatDistance(estimatedRange)}
                       </div>
                       <div className="text-lg text-muted-foreground">
-                        Estimated Range (miles)
+                        Estimated Range ({distanceUnit})
+                      </div>
+                      <div className="text-sm text-muted-foreground mt-1">
+                        {alternateModel} model: {formatDistance(alternateRange)} {distanceUnit}
                       </div>
                     </div>
                   </HoverCardTrigger>
@@ -372,6 +559,22 @@ export default function Index() {
                     <p className="text-sm">Your estimated driving range based on current conditions and charge level.</p>
                   </HoverCardContent>
                 </HoverCard>
+                {uncertainty.result && (
+                  <HoverCard>
+                    <HoverCardTrigger asChild>
+                      <div className="cursor-help">
+                        <RangeUncertainty result={uncertainty.result} pending={uncertainty.pending} />
+                      </div>
+                    </HoverCardTrigger>
+                    <HoverCardContent className="w-80">
+                      <p className="text-sm">
+                        The estimate rerun {uncertainty.result.runs.toLocaleString()} times with the inputs nudged the way real conditions
+                        {' '}drift: the forecast temperature and your average speed by several degrees and miles per hour, vehicle figures by
+                        {' '}a few percent and every model coefficient by about 10%. Eight runs in ten land between the two bounds.
+                      </p>
+                    </HoverCardContent>
+                  </HoverCard>
+                )}
               </div>
 
               <div>
@@ -392,15 +595,19 @@ export default function Index() {
                       <HoverCardTrigger asChild>
                         <div className="cursor-help">
                           <div className="text-2xl font-bold text-foreground">
-                            {Math.round(efficiency * 10) / 10}
+                            {roundForDisplay(toDisplay('efficiency', efficiency, system), 1)}
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            Efficiency (mi/kWh)
+                            Efficiency ({unitLabel('efficiency', system)})
                           </div>
                         </div>
                       </HoverCardTrigger>
                       <HoverCardContent className="w-80">
-                        <p className="text-sm">How many miles you can travel per kWh of battery energy under current conditions.</p>
+                        <p className="text-sm">
+                          {system === 'metric'
+                            ? 'How much battery energy it takes to travel 100 km under current conditions.'
+                            : 'How many miles you can travel per kWh of battery energy under current conditions.'}
+                        </p>
                       </HoverCardContent>
                     </HoverCard>
                   </div>
@@ -409,11 +616,16 @@ export default function Index() {
                       <HoverCardTrigger asChild>
                         <div className="cursor-help">
                           <div className="text-2xl font-bold text-foreground">
-                            {Math.round((estimatedRange / epaRange) * 100)}%
+                            {Math.round(vsEpa * 100)}%
                           </div>
                           <div className="text-sm text-muted-foreground">
                             vs EPA Rating
                           </div>
+                          {uncertainty.result && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Likely {Math.round(uncertainty.result.vsEpa.p10 * 100)}–{Math.round(uncertainty.result.vsEpa.p90 * 100)}%
+                            </div>
+                          )}
                         </div>
                       </HoverCardTrigger>
                       <HoverCardContent className="w-80">
@@ -424,6 +636,39 @@ export default function Index() {
                 </div>
               </div>
 
+              <div>
+                <HoverCard>
+                  <HoverCardTrigger asChild>
+                    <h3 className="text-lg font-semibold mb-4 text-foreground cursor-help flex items-center gap-1">
+                      Goal Seek
+                      <HelpCircle className="w-4 h-4" />
+                    </h3>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-80">
+                    <p className="text-sm">Work backwards from a trip: enter how far you need to go and how much charge to keep in reserve, then pick one input to solve for while the rest stay as they are.</p>
+                  </HoverCardContent>
+                </HoverCard>
+                <GoalSeekPanel inputs={inputs} coefficients={coefficients} onApply={applyInputs} />
+              </div>
+
+              <div>
+                <HoverCard>
+                  <HoverCardTrigger asChild>
+                    <h3 className="text-lg font-semibold mb-4 text-foreground cursor-help flex items-center gap-1">
+                      Charging
+                      <HelpCircle className="w-4 h-4" />
+                    </h3>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-80">
+                    <p className="text-sm">
+                      How long it takes to charge from your current charge to a target. Power follows the car's charging curve, which tapers
+                      as the battery fills, capped by the charger; range added uses the same efficiency as the estimate above.
+                    </p>
+                  </HoverCardContent>
+                </HoverCard>
+                <ChargingPanel inputs={inputs} efficiency={result.efficiency} curve={chargeCurve} onCurveChange={setChargeCurve} />
+              </div>
+
               <div>
                 <HoverCard>
                   <HoverCardTrigger asChild>
@@ -433,63 +678,47 @@ export default function Index() {
                     </h3>
                   </HoverCardTrigger>
                   <HoverCardContent className="w-80">
-                    <p className="text-sm">How different factors are affecting your vehicle's energy consumption.</p>
+                    <p className="text-sm">
+                      How much range each factor costs, stepping down from the starting range to the estimate. Because the factors multiply,
+                      a factor's cost depends on which are applied before it; the order-independent view averages over every order.
+                    </p>
                   </HoverCardContent>
                 </HoverCard>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <HoverCard>
-                      <HoverCardTrigger asChild>
-                        <span className="text-sm font-medium text-foreground cursor-help">Temperature Impact</span>
-                      </HoverCardTrigger>
-                      <HoverCardContent className="w-80">
-                        <p className="text-sm">How ambient temperature affects battery performance and range.</p>
-                      </HoverCardContent>
-                    </HoverCard>
-                    <span className={`text-sm font-medium ${factors.temperature < 0.9 ? 'text-destructive' : factors.temperature < 0.95 ? 'text-yellow-600' : 'text-green-600'}`}>
-                      {Math.round((1 - factors.temperature) * 100)}% reduction
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <HoverCard>
-                      <HoverCardTrigger asChild>
-                        <span className="text-sm font-medium text-foreground cursor-help">Speed Impact</span>
-                      </HoverCardTrigger>
-                      <HoverCardContent className="w-80">
-                        <p className="text-sm">How your average driving speed affects aerodynamic drag and efficiency.</p>
-                      </HoverCardContent>
-                    </HoverCard>
-                    <span className={`text-sm font-medium ${factors.speed < 0.9 ? 'text-destructive' : factors.speed < 0.95 ? 'text-yellow-600' : 'text-green-600'}`}>
-                      {Math.round((1 - factors.speed) * 100)}% reduction
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <HoverCard>
-                      <HoverCardTrigger asChild>
-                        <span className="text-sm font-medium text-foreground cursor-help">Climate Control</span>
-                      </HoverCardTrigger>
-                      <HoverCardContent className="w-80">
-                        <p className="text-sm">Energy consumed by heating and cooling systems.</p>
-                      </HoverCardContent>
-                    </HoverCard>
-                    <span className={`text-sm font-medium ${factors.climate < 0.9 ? 'text-destructive' : factors.climate < 0.95 ? 'text-yellow-600' : 'text-green-600'}`}>
-                      {Math.round((1 - factors.climate) * 100)}% reduction
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <HoverCard>
-                      <HoverCardTrigger asChild>
-                        <span className="text-sm font-medium text-foreground cursor-help">Terrain</span>
-                      </HoverCardTrigger>
-                      <HoverCardContent className="w-80">
-                        <p className="text-sm">Additional energy required for climbing hills and mountains.</p>
-                      </HoverCardContent>
-                    </HoverCard>
-                    <span className={`text-sm font-medium ${factors.terrain < 0.9 ? 'text-destructive' : factors.terrain < 0.95 ? 'text-yellow-600' : 'text-green-600'}`}>
-                      {Math.round((1 - factors.terrain) * 100)}% reduction
-                    </span>
-                  </div>
-                </div>
+                <RangeWaterfall result={result} model={model} />
+                <p className="text-xs text-muted-foreground mt-2">
+                  Over the estimated range, climate control draws {hvacEnergy.toFixed(1)} kWh at an average {hvacPower.toFixed(1)} kW;
+                  {' '}climbing takes {climbEnergy.toFixed(1)} kWh and regenerative braking recovers {regenEnergy.toFixed(1)} kWh.
+                </p>
+              </div>
+
+              <div>
+                <HoverCard>
+                  <HoverCardTrigger asChild>
+                    <h3 className="text-lg font-semibold mb-4 text-foreground cursor-help flex items-center gap-1">
+                      Range Curves
+                      <HelpCircle className="w-4 h-4" />
+                    </h3>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-80">
+                    <p className="text-sm">Estimated range across the full speed and temperature ranges, with every other input held where it is now. The dot marks your current conditions.</p>
+                  </HoverCardContent>
+                </HoverCard>
+                <RangeCurves inputs={inputs} coefficients={coefficients} estimatedRange={estimatedRange} />
+              </div>
+
+              <div>
+                <HoverCard>
+                  <HoverCardTrigger asChild>
+                    <h3 className="text-lg font-semibold mb-4 text-foreground cursor-help flex items-center gap-1">
+                      Speed × Temperature
+                      <HelpCircle className="w-4 h-4" />
+                    </h3>
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-80">
+                    <p className="text-sm">Estimated range for every combination of cruising speed (across) and outside temperature (up the side), with your other inputs unchanged. The outline encloses the conditions that reach your target range.</p>
+                  </HoverCardContent>
+                </HoverCard>
+                <RangeHeatmap inputs={inputs} coefficients={coefficients} />
               </div>
 
               <div>
@@ -501,29 +730,10 @@ export default function Index() {
                     </h3>
                   </HoverCardTrigger>
                   <HoverCardContent className="w-80">
-                    <p className="text-sm">How sensitive your range is to changes in different driving conditions.</p>
+                    <p className="text-sm">How much range each input is worth: every input is moved down and up by the same amount in turn, so the longest bars are the changes that buy or cost the most miles.</p>
                   </HoverCardContent>
                 </HoverCard>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground">10°F colder</span>
-                    <span className="text-sm text-muted-foreground">
-                      {Math.round(epaRange * (currentCharge / 100) * factors.speed * factors.climate * factors.terrain * Math.max(0.4, 1 - (Math.abs((temperature - 10) - 70) * 0.015)))} miles
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground">+10 mph faster</span>
-                    <span className="text-sm text-muted-foreground">
-                      {Math.round(epaRange * (currentCharge / 100) * factors.temperature * factors.climate * factors.terrain * Math.max(0.4, 1 - (Math.pow(Math.max(0, (avgSpeed + 10) - 25), 2) * 0.0008)))} miles
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground">High climate use</span>
-                    <span className="text-sm text-muted-foreground">
-                      {Math.round(epaRange * (currentCharge / 100) * factors.temperature * factors.speed * factors.terrain * 0.75)} miles
-                    </span>
-                  </div>
-                </div>
+                <RangeTornado inputs={inputs} coefficients={coefficients} estimatedRange={estimatedRange} />
               </div>
             </div>
           </Card>
@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { DriveImportDialog } from "@/components/DriveImportDialog";
+import { LogDriveForm } from "@/components/LogDriveForm";
+import { useDriveLog } from "@/hooks/use-drive-log";
+import { useGarage } from "@/hooks/use-garage";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { SEASONS, Season, seasonOf, serializeDrivesCsv, summarizeErrors } from '@/lib/drive-log';
+import { DEFAULT_INPUTS } from '@/lib/range-engine';
+import { roundForDisplay, toDisplay, unitLabel } from '@/lib/units';
+import { cn } from "@/lib/utils";
+
+/** Filter value matching every vehicle or every season. */
+const ALL = 'all';
+
+const chartConfig = {
+  error: { label: 'Error', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const signed = (value: number) => `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value).toFixed(1)}`;
+
+export default function Journal() {
+  const [searchParams] = useSearchParams();
+  const { system } = useUnitSystem();
+  const { vehicles, activeVehicle } = useGarage();
+  const { drives: allDrives, removeDrive } = useDriveLog();
+  const [vehicleFilter, setVehicleFilter] = useState<string>(ALL);
+  const [seasonFilter, setSeasonFilter] = useState<Season | typeof ALL>(ALL);
+  const [logOpen, setLogOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [logVehicleId, setLogVehicleId] = useState<string | undefined>(activeVehicle?.id);
+
+  const vehicleName = (id: string) => vehicles.find((vehicle) => vehicle.id === id)?.name ?? 'Removed vehicle';
+  const logVehicle = vehicles.find((vehicle) => vehicle.id === logVehicleId) ?? vehicles[0];
+
+  const drives = useMemo(
+    () => allDrives.filter((drive) =>
+      (vehicleFilter === ALL || drive.vehicleId === vehicleFilter) && (seasonFilter === ALL || seasonOf(drive.date) === seasonFilter)
+    ),
+    [allDrives, vehicleFilter, seasonFilter]
+  );
+  const summary = useMemo(() => summarizeErrors(drives.map((drive) => drive.predicted - drive.chargeUsed)), [drives]);
+  // Oldest first, so the chart reads left to right in time.
+  const chartData = useMemo(
+    () => [...drives].reverse().map((drive) => ({ date: drive.date, error: roundForDisplay(drive.predicted - drive.chargeUsed, 1) })),
+    [drives]
+  );
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([serializeDrivesCsv(drives, vehicleName)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ev-drive-journal.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const distanceUnit = unitLabel('distance', system);
+
+  return (
+    <div className="min-h-screen bg-background p-4 font-sans">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <Button asChild variant="ghost" size="sm" className="mb-4">
+            <Link to={`/?${searchParams.toString()}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to estimator
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold text-foreground mb-3">Trip Journal</h1>
+          <p className="text-lg text-muted-foreground">
+            Every logged drive next to what the estimator predicted for it when it was logged, so you can see how far to trust the estimate
+            for each car and time of year.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card className="p-6">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+              <div className="flex flex-wrap gap-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-foreground">Vehicle</p>
+                  <Select value={vehicleFilter} onValueChange={setVehicleFilter}>
+                    <SelectTrigger className="w-56" aria-label="Vehicle">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All vehicles</SelectItem>
+                      {vehicles.map((vehicle) => (
+                        <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-foreground">Season</p>
+                  <div className="grid grid-cols-5 gap-2">
+                    {([ALL, ...Object.keys(SEASONS)] as (Season | typeof ALL)[]).map((option) => (
+                      <Button
+                        key={option}
+                        type="button"
+                        variant={seasonFilter === option ? "default" : "outline"}
+                        onClick={() => setSeasonFilter(option)}
+                        className="text-sm font-medium"
+                      >
+                        {option === ALL ? 'All' : SEASONS[option]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={() => setLogOpen(true)} disabled={vehicles.length === 0}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Log a drive
+                </Button>
+                <Button variant="outline" onClick={() => setImportOpen(true)} disabled={vehicles.length === 0}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import CSV
+                </Button>
+                <Button variant="outline" onClick={exportCsv} disabled={drives.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-muted/50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-foreground">{drives.length}</div>
+                <div className="text-sm text-muted-foreground">Drives</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-foreground">{drives.length ? `${summary.mae.toFixed(1)} pts` : '—'}</div>
+                <div className="text-sm text-muted-foreground">Mean absolute error</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-foreground">{drives.length ? `${signed(summary.bias)} pts` : '—'}</div>
+                <div className="text-sm text-muted-foreground">Bias</div>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-foreground">{drives.length ? `${summary.rmse.toFixed(1)} pts` : '—'}</div>
+                <div className="text-sm text-muted-foreground">Root mean square error</div>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Errors are predicted minus actual charge used, in percentage points of battery; a positive bias means the estimate expected
+              {' '}more charge to be used than was.
+            </p>
+          </Card>
+
+          <Card className="p-6">
+            <h2 className="text-2xl font-semibold mb-6">Prediction Error Over Time</h2>
+            {chartData.length < 2 ? (
+              <p className="text-muted-foreground">Log at least two drives matching the filters to chart how the error changes.</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-[3/1] w-full">
+                <LineChart data={chartData} margin={{ top: 8, right: 12, bottom: 8, left: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis width={40} tickLine={false} axisLine={false} tickFormatter={(value: number) => signed(value)} />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => `${signed(Number(value))} pts`} />} />
+                  <Line dataKey="error" type="linear" stroke="var(--color-error)" strokeWidth={2} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </Card>
+
+          <Card className="p-6">
+            <h2 className="text-2xl font-semibold mb-6">Drives</h2>
+            {drives.length === 0 ? (
+              <p className="text-muted-foreground">
+                {allDrives.length === 0
+                  ? 'No drives logged yet. Log one here, import them from a telematics export, or use the calibration panel in the estimator.'
+                  : 'No drives match these filters.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Distance ({distanceUnit})</TableHead>
+                    <TableHead>Predicted</TableHead>
+                    <TableHead>Actual</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drives.map((drive) => {
+                    const kwh = (percent: number) => roundForDisplay((percent / 100) * drive.inputs.batteryCapacity, 1);
+                    const error = drive.predicted - drive.chargeUsed;
+                    return (
+                      <TableRow key={drive.id}>
+                        <TableCell>{drive.date}</TableCell>
+                        <TableCell>{vehicleName(drive.vehicleId)}</TableCell>
+                        <TableCell>{roundForDisplay(toDisplay('distance', drive.inputs.routeDistance, system), 1)}</TableCell>
+                        <TableCell>{roundForDisplay(drive.predicted, 1)}% ({kwh(drive.predicted)} kWh)</TableCell>
+                        <TableCell>{roundForDisplay(drive.chargeUsed, 1)}% ({kwh(drive.chargeUsed)} kWh)</TableCell>
+                        <TableCell className={cn(Math.abs(error) >= 5 && "text-destructive")}>{signed(error)} pts</TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="icon" aria-label={`Delete drive on ${drive.date}`} onClick={() => removeDrive(drive.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      <DriveImportDialog open={importOpen} onOpenChange={setImportOpen} />
+
+      {logVehicle && (
+        <Dialog open={logOpen} onOpenChange={setLogOpen}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Log a drive</DialogTitle>
+              <DialogDescription>
+                The estimate stored with the drive uses the car's current coefficients, so later calibration doesn't rewrite its history.
+              </DialogDescription>
+            </DialogHeader>
+            <Select value={logVehicle.id} onValueChange={setLogVehicleId}>
+              <SelectTrigger aria-label="Vehicle driven">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicles.map((vehicle) => (
+                  <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <LogDriveForm
+              key={logVehicle.id}
+              vehicle={logVehicle}
+              model={logVehicle.calibration?.model ?? DEFAULT_INPUTS.model}
+              conditions={DEFAULT_INPUTS}
+              onLogged={() => setLogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
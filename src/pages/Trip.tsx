@@ -0,0 +1,485 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowDown, ArrowLeft, ArrowUp, BatteryCharging, Flag, Plus, Trash2 } from 'lucide-react';
+import { ChargeCurveEditor } from "@/components/ChargeCurveEditor";
+import { NumericInput } from "@/components/FormFields";
+import { useGarage } from "@/hooks/use-garage";
+import { useTrip } from "@/hooks/use-trip";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { cn } from "@/lib/utils";
+import { ChargeCurve, chargeCurveSchema, formatDuration, typicalChargeCurve } from '@/lib/charging';
+import { STOP_OVERHEAD_MINUTES, TripCharger, TripChargerField, createTripCharger, planChargingStops, tripChargerSchema } from '@/lib/charge-planner';
+import { DEFAULT_COEFFICIENTS, DEFAULT_INPUTS, RangeInputs, RangeModel } from '@/lib/range-engine';
+import { INPUT_BOUNDS, NumericInputKey, inputUnit } from '@/lib/range-schema';
+import { decodeScenario } from '@/lib/scenario-url';
+import { TripLeg, TripLegField, buildTripLegSchema, createTripLeg, planTrip } from '@/lib/trip';
+import { fromDisplay, roundForDisplay, toDisplay, unitLabel } from '@/lib/units';
+
+const ESTIMATOR_VEHICLE = 'estimator';
+
+const LEG_FIELDS: { key: TripLegField; label: string; input: NumericInputKey }[] = [
+  { key: 'distance', label: 'Distance', input: 'routeDistance' },
+  { key: 'avgSpeed', label: 'Speed', input: 'avgSpeed' },
+  { key: 'temperature', label: 'Outside', input: 'temperature' },
+  { key: 'cabinTemperature', label: 'Cabin', input: 'cabinTemperature' },
+  { key: 'elevationGain', label: 'Climb', input: 'elevationGain' },
+  { key: 'elevationLoss', label: 'Descent', input: 'elevationLoss' },
+];
+
+export default function Trip() {
+  const [searchParams] = useSearchParams();
+  const { system } = useUnitSystem();
+  const { vehicles, activeVehicle, updateVehicle } = useGarage();
+  const {
+    legs,
+    startCharge,
+    reserve,
+    chargers,
+    chargeCurve,
+    vehicleId,
+    model,
+    updateTrip,
+    addLeg,
+    updateLeg,
+    removeLeg,
+    moveLeg,
+    addCharger,
+    updateCharger,
+    removeCharger,
+  } = useTrip();
+
+  // Without a garage vehicle the trip uses whatever the estimator link carries.
+  const garageVehicle = vehicles.find((vehicle) => vehicle.id === vehicleId);
+  const vehicle = useMemo<RangeInputs>(() => ({
+    ...DEFAULT_INPUTS,
+    ...activeVehicle?.specs,
+    ...decodeScenario(searchParams),
+    ...garageVehicle?.specs,
+    model,
+  }), [activeVehicle, searchParams, garageVehicle, model]);
+  const coefficients = (garageVehicle ?? activeVehicle)?.coefficients ?? DEFAULT_COEFFICIENTS;
+  // A garage vehicle keeps its own curve; the estimator's vehicle keeps one with the trip.
+  const curve = (garageVehicle ? garageVehicle.chargeCurve : chargeCurve) ?? typicalChargeCurve(vehicle.batteryCapacity);
+  const setCurve = (next: ChargeCurve) => {
+    if (garageVehicle) {
+      updateVehicle(garageVehicle.id, { chargeCurve: next });
+    } else {
+      updateTrip({ chargeCurve: next });
+    }
+  };
+
+  const schema = useMemo(() => buildTripLegSchema(system), [system]);
+  const issues: Record<string, string>[] = legs.map((leg) => {
+    const parsed = schema.safeParse(leg);
+    return parsed.success ? {} : Object.fromEntries(parsed.error.issues.map((issue) => [issue.path[0], issue.message]));
+  });
+  const settingsValid = Number.isFinite(startCharge) && Number.isFinite(reserve) && startCharge >= 0 && startCharge <= 100 && reserve >= 0 && reserve < 100;
+  const isValid = settingsValid && legs.length > 0 && issues.every((legIssues) => Object.keys(legIssues).length === 0);
+  const plan = useMemo(
+    () => (isValid ? planTrip(vehicle, legs, startCharge, reserve, coefficients) : undefined),
+    [isValid, vehicle, legs, startCharge, reserve, coefficients]
+  );
+
+  const chargerIssues: Record<string, string>[] = chargers.map((charger) => {
+    const parsed = tripChargerSchema.safeParse(charger);
+    return parsed.success ? {} : Object.fromEntries(parsed.error.issues.map((issue) => [issue.path[0], issue.message]));
+  });
+  const chargingValid = chargeCurveSchema.safeParse(curve).success
+    && chargerIssues.every((issuesForCharger) => Object.keys(issuesForCharger).length === 0);
+  const chargePlan = useMemo(
+    () => (plan && chargingValid ? planChargingStops(plan, chargers, curve, vehicle.batteryCapacity, startCharge, reserve) : undefined),
+    [plan, chargingValid, chargers, curve, vehicle.batteryCapacity, startCharge, reserve]
+  );
+
+  const distanceUnit = unitLabel('distance', system);
+  const formatDistance = (miles: number) => roundForDisplay(toDisplay('distance', miles, system), 1);
+
+  const appendLeg = () => {
+    const previous = legs[legs.length - 1];
+    addLeg(createTripLeg(`Leg ${legs.length + 1}`, {
+      distance: 50,
+      avgSpeed: previous?.avgSpeed ?? DEFAULT_INPUTS.avgSpeed,
+      temperature: previous?.temperature ?? DEFAULT_INPUTS.temperature,
+      cabinTemperature: previous?.cabinTemperature ?? DEFAULT_INPUTS.cabinTemperature,
+      elevationGain: 0,
+      elevationLoss: 0,
+    }));
+  };
+
+  const legValue = (leg: TripLeg, field: (typeof LEG_FIELDS)[number]) => {
+    const { quantity } = INPUT_BOUNDS[field.input];
+    const value = leg[field.key];
+    return quantity && typeof value === 'number' ? roundForDisplay(toDisplay(quantity, value, system)) : value;
+  };
+
+  const setLegValue = (leg: TripLeg, field: (typeof LEG_FIELDS)[number], value: number) => {
+    const { quantity } = INPUT_BOUNDS[field.input];
+    updateLeg(leg.id, { [field.key]: quantity && !isNaN(value) ? fromDisplay(quantity, value, system) : value });
+  };
+
+  const appendCharger = () => {
+    const previous = chargers[chargers.length - 1];
+    addCharger(createTripCharger(`Charger ${chargers.length + 1}`, {
+      position: Math.min((previous?.position ?? 0) + 50, plan?.totalDistance ?? Infinity),
+      maxKw: previous?.maxKw ?? 150,
+    }));
+  };
+
+  const chargerValue = (charger: TripCharger, field: TripChargerField) =>
+    field === 'position' ? formatDistance(charger[field]) : charger[field];
+
+  const setChargerValue = (charger: TripCharger, field: TripChargerField, value: number) => {
+    updateCharger(charger.id, { [field]: field === 'position' && !isNaN(value) ? fromDisplay('distance', value, system) : value });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 font-sans">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <Button asChild variant="ghost" size="sm" className="mb-4">
+            <Link to={`/?${searchParams.toString()}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to estimator
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold text-foreground mb-3">Trip Planner</h1>
+          <p className="text-lg text-muted-foreground">
+            Break a trip into legs with their own speed, weather, climate setting and elevation, and follow the battery from start to finish.
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <Card className="p-6">
+            <h2 className="text-2xl font-semibold mb-6 text-foreground">Vehicle</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="space-y-2">
+                <Label className="text-base font-medium text-foreground">Vehicle</Label>
+                <Select
+                  value={garageVehicle ? garageVehicle.id : ESTIMATOR_VEHICLE}
+                  onValueChange={(value) => updateTrip({ vehicleId: value === ESTIMATOR_VEHICLE ? undefined : value })}
+                >
+                  <SelectTrigger className="text-base" aria-label="Vehicle">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ESTIMATOR_VEHICLE}>Estimator vehicle</SelectItem>
+                    {vehicles.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">{vehicle.batteryCapacity} kWh usable</p>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-base font-medium text-foreground">Model</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['Simple', 'Physics'] as RangeModel[]).map((option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      variant={model === option ? "default" : "outline"}
+                      onClick={() => updateTrip({ model: option })}
+                      className="text-sm font-medium"
+                    >
+                      {option}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trip-start-charge" className="text-base font-medium text-foreground">Starting Charge (%)</Label>
+                <NumericInput
+                  id="trip-start-charge"
+                  value={startCharge}
+                  onChange={(value) => updateTrip({ startCharge: value })}
+                  min={0}
+                  max={100}
+                  className="text-base"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trip-reserve" className="text-base font-medium text-foreground">Reserve (%)</Label>
+                <NumericInput
+                  id="trip-reserve"
+                  value={reserve}
+                  onChange={(value) => updateTrip({ reserve: value })}
+                  min={0}
+                  max={99}
+                  className="text-base"
+                />
+              </div>
+            </div>
+            {!settingsValid && (
+              <p className="text-sm text-destructive mt-4">Charge must be between 0 and 100%, and the reserve below 100%.</p>
+            )}
+          </Card>
+
+          <Card className="p-6">
+            <h2 className="text-2xl font-semibold mb-6 text-foreground">Legs</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[10rem]">Name</TableHead>
+                  {LEG_FIELDS.map((field) => (
+                    <TableHead key={field.key} className="min-w-[6rem]">
+                      {field.label} ({inputUnit(field.input, system)})
+                    </TableHead>
+                  ))}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {legs.map((leg, index) => (
+                  <TableRow key={leg.id}>
+                    <TableCell>
+                      <Input
+                        value={leg.name}
+                        onChange={(e) => updateLeg(leg.id, { name: e.target.value })}
+                        aria-label="Leg name"
+                        aria-invalid={Boolean(issues[index].name)}
+                        title={issues[index].name}
+                        className={cn(issues[index].name && "border-destructive")}
+                      />
+                    </TableCell>
+                    {LEG_FIELDS.map((field) => (
+                      <TableCell key={field.key}>
+                        <NumericInput
+                          value={legValue(leg, field)}
+                          onChange={(value) => setLegValue(leg, field, value)}
+                          step={INPUT_BOUNDS[field.input].step}
+                          aria-label={`${leg.name} ${field.label}`}
+                          aria-invalid={Boolean(issues[index][field.key])}
+                          title={issues[index][field.key]}
+                          className={cn(issues[index][field.key] && "border-destructive")}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <div className="flex">
+                        <Button variant="ghost" size="icon" aria-label="Move leg up" disabled={index === 0} onClick={() => moveLeg(leg.id, -1)}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label="Move leg down" disabled={index === legs.length - 1} onClick={() => moveLeg(leg.id, 1)}>
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label={`Delete ${leg.name}`} onClick={() => removeLeg(leg.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button variant="outline" className="mt-4" onClick={appendLeg}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add leg
+            </Button>
+            {issues.some((legIssues) => Object.keys(legIssues).length > 0) && (
+              <p className="text-sm text-destructive mt-4">Some values are out of range; hover a highlighted cell to see why.</p>
+            )}
+          </Card>
+
+          {plan && (
+            <Card className="p-6">
+              <h2 className="text-2xl font-semibold mb-6 text-foreground">Battery Along the Way</h2>
+              {plan.belowReserve && (
+                <Alert variant="destructive" className="mb-6">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Below reserve on {plan.legs[plan.belowReserve.index].leg.name}</AlertTitle>
+                  <AlertDescription>
+                    The charge drops under {reserve}% about {formatDistance(plan.belowReserve.distanceIntoLeg)} {distanceUnit} into
+                    {' '}leg {plan.belowReserve.index + 1}. Plan a charging stop before then.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Leg</TableHead>
+                    <TableHead>Distance ({distanceUnit})</TableHead>
+                    <TableHead>Energy (kWh)</TableHead>
+                    <TableHead>Efficiency ({unitLabel('efficiency', system)})</TableHead>
+                    <TableHead className="min-w-[12rem]">Charge at end</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.legs.map((legPlan, index) => (
+                    <TableRow
+                      key={legPlan.leg.id}
+                      className={cn(plan.belowReserve && index >= plan.belowReserve.index && "bg-destructive/10")}
+                    >
+                      <TableCell className="font-medium">{legPlan.leg.name}</TableCell>
+                      <TableCell>{formatDistance(legPlan.leg.distance)}</TableCell>
+                      <TableCell>{legPlan.energy.toFixed(1)}</TableCell>
+                      <TableCell>
+                        {legPlan.consumption > 0 ? roundForDisplay(toDisplay('efficiency', 1000 / legPlan.consumption, system), 1) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Progress value={Math.max(0, legPlan.endCharge)} className="h-2 flex-1" />
+                          <span className={cn("w-12 text-right", legPlan.endCharge < reserve && "text-destructive font-medium")}>
+                            {Math.round(legPlan.endCharge)}%
+                          </span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>Total</TableCell>
+                    <TableCell>{formatDistance(plan.totalDistance)}</TableCell>
+                    <TableCell>{plan.totalEnergy.toFixed(1)}</TableCell>
+                    <TableCell />
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+
+          <Card className="p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-foreground">Charging Stops</h2>
+            <p className="text-muted-foreground mb-6">
+              List chargers along the route and how fast the car charges. The planner picks where to stop and how long to charge
+              {' '}for the quickest trip that still reaches every charger, and the destination, with at least {reserve}% left.
+            </p>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <h3 className="text-lg font-semibold mb-4 text-foreground">Chargers</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[10rem]">Name</TableHead>
+                      <TableHead className="min-w-[6rem]">From start ({distanceUnit})</TableHead>
+                      <TableHead className="min-w-[6rem]">Max (kW)</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {chargers.map((charger, index) => (
+                      <TableRow key={charger.id}>
+                        <TableCell>
+                          <Input
+                            value={charger.name}
+                            onChange={(e) => updateCharger(charger.id, { name: e.target.value })}
+                            aria-label="Charger name"
+                            aria-invalid={Boolean(chargerIssues[index].name)}
+                            title={chargerIssues[index].name}
+                            className={cn(chargerIssues[index].name && "border-destructive")}
+                          />
+                        </TableCell>
+                        {(['position', 'maxKw'] as const).map((field) => (
+                          <TableCell key={field}>
+                            <NumericInput
+                              value={chargerValue(charger, field)}
+                              onChange={(value) => setChargerValue(charger, field, value)}
+                              aria-label={`${charger.name} ${field === 'position' ? 'distance from start' : 'maximum power'}`}
+                              aria-invalid={Boolean(chargerIssues[index][field])}
+                              title={chargerIssues[index][field]}
+                              className={cn(chargerIssues[index][field] && "border-destructive")}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Button variant="ghost" size="icon" aria-label={`Delete ${charger.name}`} onClick={() => removeCharger(charger.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Button variant="outline" className="mt-4" onClick={appendCharger}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add charger
+                </Button>
+                {chargerIssues.some((issuesForCharger) => Object.keys(issuesForCharger).length > 0) && (
+                  <p className="text-sm text-destructive mt-4">Some values are out of range; hover a highlighted cell to see why.</p>
+                )}
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4 text-foreground">Charging curve</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Power the car accepts as it fills up{garageVehicle ? `, saved with ${garageVehicle.name}` : ''}. A charger never delivers more than its own maximum.
+                </p>
+                <ChargeCurveEditor curve={curve} batteryCapacity={vehicle.batteryCapacity} onChange={setCurve} />
+              </div>
+            </div>
+          </Card>
+
+          {chargePlan && (
+            <Card className="p-6">
+              <h2 className="text-2xl font-semibold mb-6 text-foreground">Itinerary</h2>
+              {chargePlan.feasible === false ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>No workable plan</AlertTitle>
+                  <AlertDescription>
+                    Even charging to 100% at every stop, the charge drops under {reserve}% about {formatDistance(chargePlan.reach)} {distanceUnit}
+                    {' '}from the start. Add a charger before then, or leave with more charge.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                    <div className="bg-muted/50 rounded-lg p-4">
+                      <div className="text-2xl font-bold text-foreground">{formatDuration(chargePlan.totalMinutes)}</div>
+                      <div className="text-sm text-muted-foreground">Total trip time</div>
+                    </div>
+                    <div className="bg-muted/50 rounded-lg p-4">
+                      <div className="text-2xl font-bold text-foreground">{formatDuration(chargePlan.drivingMinutes)}</div>
+                      <div className="text-sm text-muted-foreground">Driving</div>
+                    </div>
+                    <div className="bg-muted/50 rounded-lg p-4">
+                      <div className="text-2xl font-bold text-foreground">{formatDuration(chargePlan.chargingMinutes)}</div>
+                      <div className="text-sm text-muted-foreground">
+                        Charging, including {STOP_OVERHEAD_MINUTES} min per stop to get on and off the road
+                      </div>
+                    </div>
+                  </div>
+                  <ol className="space-y-3">
+                    <li className="flex items-center gap-3">
+                      <Flag className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium text-foreground">Leave with {Math.round(startCharge)}%</span>
+                    </li>
+                    {chargePlan.stops.length === 0 && (
+                      <li className="text-sm text-muted-foreground pl-7">No charging needed.</li>
+                    )}
+                    {chargePlan.stops.map((stop) => (
+                      <li key={stop.charger.id} className="flex items-start gap-3">
+                        <BatteryCharging className="w-4 h-4 mt-1 text-primary" />
+                        <div>
+                          <div className="font-medium text-foreground">
+                            {stop.charger.name} · {formatDistance(stop.charger.position)} {distanceUnit}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Arrive with {Math.round(stop.arrivalCharge)}%, charge to {Math.round(stop.departureCharge)}%
+                            {' '}in {formatDuration(stop.minutes)} ({stop.energyAdded.toFixed(1)} kWh at up to {stop.charger.maxKw} kW)
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                    <li className="flex items-center gap-3">
+                      <Flag className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium text-foreground">
+                        Arrive after {formatDistance(plan.totalDistance)} {distanceUnit} with {Math.round(chargePlan.arrivalCharge)}%
+                      </span>
+                    </li>
+                  </ol>
+                </>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}